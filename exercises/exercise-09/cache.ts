@@ -0,0 +1,168 @@
+import {PromiseApiObject, systemTimers, Timers} from './middleware';
+
+export interface CachePolicy {
+    ttlMs: number;
+    staleWhileRevalidateMs?: number;
+    cacheErrors?: boolean;
+    maxEntries?: number;
+}
+
+export type CachePolicies<Api> = {
+    [K in keyof Api]?: CachePolicy;
+};
+
+type CachedResult = {
+    status: 'success';
+    data: unknown;
+    storedAt: number;
+} | {
+    status: 'error';
+    error: unknown;
+    storedAt: number;
+};
+
+interface CacheEntry {
+    pending?: Promise<unknown>;
+    result?: CachedResult;
+}
+
+export class ApiCache<Api extends PromiseApiObject<Api>> {
+
+    readonly api: Api;
+
+    protected readonly entries: Map<keyof Api, Map<string, CacheEntry>> = new Map<keyof Api, Map<string, CacheEntry>>();
+
+    constructor(protected readonly source: Api,
+                protected readonly policies: CachePolicies<Api> = {},
+                protected readonly timers: Timers = systemTimers) {
+        this.api = (Object.keys(source) as (keyof Api & string)[]).reduce(
+            (api: Api, requestName: keyof Api & string) => ({
+                ...api,
+                [requestName]: (...args: never[]) => this.request(requestName, args)
+            }),
+            {} as Api
+        );
+    }
+
+    invalidate(requestName?: keyof Api): void {
+        if (requestName === undefined) {
+            this.entries.clear();
+        } else {
+            this.entries.delete(requestName);
+        }
+    }
+
+    protected request(requestName: keyof Api, args: never[]): Promise<unknown> {
+        const entries: Map<string, CacheEntry> = this.getEntries(requestName);
+        const key: string = JSON.stringify(args);
+        const policy: CachePolicy | undefined = this.policies[requestName];
+
+        if (!!policy) {
+            this.evictExpired(entries, policy);
+        }
+
+        const entry: CacheEntry = entries.get(key) || {};
+
+        entries.set(key, entry);
+
+        if (!!entry.result && !!policy) {
+            const age: number = this.timers.now() - entry.result.storedAt;
+
+            if (age < policy.ttlMs) {
+                return this.replay(entry.result);
+            }
+
+            if (entry.result.status === 'success' && age < policy.ttlMs + (policy.staleWhileRevalidateMs || 0)) {
+                if (!entry.pending) {
+                    this.fetch(requestName, args, entries, key).catch(() => undefined);
+                }
+
+                return this.replay(entry.result);
+            }
+        }
+
+        return entry.pending || this.fetch(requestName, args, entries, key);
+    }
+
+    protected fetch(requestName: keyof Api,
+                    args: never[],
+                    entries: Map<string, CacheEntry>,
+                    key: string): Promise<unknown> {
+        const entry: CacheEntry = entries.get(key) as CacheEntry;
+        const policy: CachePolicy | undefined = this.policies[requestName];
+        const settle = (result?: CachedResult): void => {
+            entry.pending = undefined;
+            entry.result = result || entry.result;
+
+            if (!entry.result) {
+                entries.delete(key);
+            } else if (!!result && !!policy) {
+                // Re-inserting keeps the entries ordered by the time their results were stored
+                entries.delete(key);
+                entries.set(key, entry);
+                this.evictOldest(entries, policy);
+            }
+        };
+        const pending: Promise<unknown> = this.source[requestName](...args).then(
+            (data: unknown) => {
+                settle(!!policy ? { status: 'success', data, storedAt: this.timers.now() } : undefined);
+
+                return data;
+            },
+            (err: unknown) => {
+                settle(!!policy && policy.cacheErrors ? { status: 'error', error: err, storedAt: this.timers.now() } : undefined);
+
+                throw err;
+            }
+        );
+
+        entry.pending = pending;
+
+        return pending;
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected replay(result: CachedResult): Promise<unknown> {
+        return result.status === 'success' ? Promise.resolve(result.data) : Promise.reject(result.error);
+    }
+
+    protected evictExpired(entries: Map<string, CacheEntry>, policy: CachePolicy): void {
+        const now: number = this.timers.now();
+
+        entries.forEach((entry: CacheEntry, key: string) => {
+            if (!entry.pending && !!entry.result) {
+                const lifetime: number = entry.result.status === 'success'
+                    ? policy.ttlMs + (policy.staleWhileRevalidateMs || 0)
+                    : policy.ttlMs;
+
+                if (now - entry.result.storedAt >= lifetime) {
+                    entries.delete(key);
+                }
+            }
+        });
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected evictOldest(entries: Map<string, CacheEntry>, policy: CachePolicy): void {
+        if (policy.maxEntries === undefined) {
+            return;
+        }
+
+        let excess: number = entries.size - policy.maxEntries;
+
+        entries.forEach((entry: CacheEntry, key: string) => {
+            if (excess > 0 && !entry.pending) {
+                entries.delete(key);
+                excess--;
+            }
+        });
+    }
+
+    protected getEntries(requestName: keyof Api): Map<string, CacheEntry> {
+        const entries: Map<string, CacheEntry> = this.entries.get(requestName) || new Map<string, CacheEntry>();
+
+        this.entries.set(requestName, entries);
+
+        return entries;
+    }
+}
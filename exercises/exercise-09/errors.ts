@@ -0,0 +1,73 @@
+import {ApiErrorResponse} from './promisify';
+
+export type ApiErrorCode = 'NOT_FOUND' | 'BAD_REQUEST' | 'OVERFLOW' | 'TIMEOUT' | 'CIRCUIT_OPEN' | 'MALFORMED_RESPONSE' | 'UNKNOWN';
+
+export const apiErrorCodes: ReadonlyArray<ApiErrorCode> = [
+    'NOT_FOUND',
+    'BAD_REQUEST',
+    'OVERFLOW',
+    'TIMEOUT',
+    'CIRCUIT_OPEN',
+    'MALFORMED_RESPONSE',
+    'UNKNOWN'
+];
+
+export class ApiError extends Error {
+    constructor(readonly code: ApiErrorCode,
+                message: string,
+                readonly requestName: string,
+                readonly response?: ApiErrorResponse) {
+        super(message);
+        this.name = new.target.name;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(message: string, requestName: string, response?: ApiErrorResponse) {
+        super('NOT_FOUND', message, requestName, response);
+    }
+}
+
+export class BadRequestError extends ApiError {
+    constructor(message: string, requestName: string, response?: ApiErrorResponse) {
+        super('BAD_REQUEST', message, requestName, response);
+    }
+}
+
+export class OverflowError extends ApiError {
+    constructor(message: string, requestName: string, response?: ApiErrorResponse) {
+        super('OVERFLOW', message, requestName, response);
+    }
+}
+
+export class TimeoutError extends ApiError {
+    constructor(requestName: string, readonly timeoutMs: number) {
+        super('TIMEOUT', `Request "${requestName}" has timed out after ${timeoutMs}ms.`, requestName);
+    }
+}
+
+export class CircuitOpenError extends ApiError {
+    constructor(requestName: string, readonly retryAt: number) {
+        super('CIRCUIT_OPEN', `Request "${requestName}" is short-circuited after repeated failures.`, requestName);
+    }
+}
+
+export class MalformedResponseError extends ApiError {
+    constructor(requestName: string, readonly reason: string, readonly statusCode?: number) {
+        super('MALFORMED_RESPONSE', `Malformed response to "${requestName}": ${reason}`, requestName);
+    }
+}
+
+export function createApiError(requestName: string, response: ApiErrorResponse): ApiError {
+    switch (response.code) {
+        case 'NOT_FOUND':
+            return new NotFoundError(response.error, requestName, response);
+        case 'BAD_REQUEST':
+            return new BadRequestError(response.error, requestName, response);
+        case 'OVERFLOW':
+            return new OverflowError(response.error, requestName, response);
+        default:
+            return new ApiError(response.code || 'UNKNOWN', response.error, requestName, response);
+    }
+}
@@ -0,0 +1,195 @@
+import * as http from 'http';
+import {ApiErrorResponse, ApiResponse} from './promisify';
+import {ApiError, ApiErrorCode, apiErrorCodes, BadRequestError, createApiError, MalformedResponseError} from './errors';
+import {ApiMethod} from './middleware';
+
+export interface Route<A extends unknown[], T> {
+    path: string;
+    signature?: (...args: A) => T;
+}
+
+export type Routes = {
+    [requestName: string]: Route<never[], unknown>;
+};
+
+export type RouteApi<R> = {
+    [K in keyof R]: R[K] extends Route<infer A, infer T> ? (...args: A) => Promise<T> : never;
+};
+
+export interface ApiServer {
+    url: string;
+
+    close(): Promise<void>;
+}
+
+export function route<A extends unknown[], T>(path: string): Route<A, T> {
+    return { path };
+}
+
+export function createHttpClient<R extends Routes>(routes: R, baseUrl: string): RouteApi<R> {
+    return Object.keys(routes).reduce((api: RouteApi<R>, requestName: string) => ({
+        ...api,
+        [requestName]: (...args: unknown[]) => sendRequest(new URL(routes[requestName].path, baseUrl), requestName, args)
+    }), {} as RouteApi<R>);
+}
+
+export async function startApiServer<R extends Routes>(routes: R,
+                                                      api: RouteApi<R>,
+                                                      port: number = 0): Promise<ApiServer> {
+    const server: http.Server = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+        const requestName: string | undefined = Object.keys(routes).find((name: string) => routes[name].path === req.url);
+
+        readBody(req)
+            .then((body: string) => {
+                if (requestName === undefined || req.method !== 'POST') {
+                    return writeResponse(res, 404, {
+                        status: 'error',
+                        error: `Route "${req.url}" is not found.`,
+                        code: 'NOT_FOUND'
+                    });
+                }
+
+                return (api[requestName] as ApiMethod)(...parseArguments(requestName, body))
+                    .then((data: unknown) => writeResponse(res, 200, { status: 'success', data }));
+            })
+            .catch((err: unknown) => writeResponse(res, getStatusCode(err), {
+                status: 'error',
+                error: err instanceof Error ? err.message : String(err),
+                code: err instanceof ApiError ? err.code : 'UNKNOWN'
+            }));
+    });
+
+    return new Promise<ApiServer>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, '127.0.0.1', () => {
+            const { port: actualPort } = server.address() as { port: number };
+
+            resolve({
+                url: `http://127.0.0.1:${actualPort}`,
+                close: () => new Promise<void>((resolveClose, rejectClose) => {
+                    server.close((err?: Error) => err ? rejectClose(err) : resolveClose());
+                })
+            });
+        });
+    });
+}
+
+function sendRequest(url: URL, requestName: string, args: unknown[]): Promise<unknown> {
+    return new Promise<unknown>((resolve, reject) => {
+        const body: string = JSON.stringify(args);
+        const req: http.ClientRequest = http.request(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) }
+        }, (res: http.IncomingMessage) => {
+            readBody(res)
+                .then((data: string) => {
+                    const response: ApiResponse<unknown> = parseEnvelope(requestName, data, res.statusCode);
+
+                    if (response.status === 'error') {
+                        return reject(createApiError(requestName, response));
+                    }
+
+                    return resolve(response.data);
+                })
+                .catch(reject);
+        });
+
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+function parseArguments(requestName: string, body: string): never[] {
+    let args: unknown;
+
+    try {
+        args = JSON.parse(body || '[]');
+    } catch (err) {
+        throw new BadRequestError('Request body is not valid JSON.', requestName);
+    }
+
+    if (!Array.isArray(args)) {
+        throw new BadRequestError('Request body must be a JSON array of arguments.', requestName);
+    }
+
+    return args as never[];
+}
+
+function getStatusCode(err: unknown): number {
+    switch (err instanceof ApiError ? err.code : 'UNKNOWN') {
+        case 'NOT_FOUND':
+            return 404;
+        case 'BAD_REQUEST':
+            return 400;
+        default:
+            return 500;
+    }
+}
+
+function parseEnvelope(requestName: string, data: string, statusCode?: number): ApiResponse<unknown> {
+    let envelope: unknown;
+
+    try {
+        envelope = JSON.parse(data);
+    } catch (err) {
+        throw new MalformedResponseError(requestName, 'response body is not valid JSON', statusCode);
+    }
+
+    if (typeof envelope !== 'object' || envelope === null) {
+        throw new MalformedResponseError(requestName, 'response body is not an object', statusCode);
+    }
+
+    const { status, data: payload, error, code } = envelope as { status?: unknown, data?: unknown, error?: unknown, code?: unknown };
+
+    if (status === 'success' && 'data' in envelope) {
+        return { status, data: payload };
+    }
+
+    if (status === 'error' && typeof error === 'string') {
+        const response: ApiErrorResponse = { status, error };
+
+        if (apiErrorCodes.indexOf(code as ApiErrorCode) !== -1) {
+            response.code = code as ApiErrorCode;
+        }
+
+        return response;
+    }
+
+    throw new MalformedResponseError(requestName, `unexpected envelope ${JSON.stringify(envelope)}`, statusCode);
+}
+
+function readBody(stream: http.IncomingMessage): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        stream.on('error', reject);
+    });
+}
+
+// Sent when the response itself cannot be serialized (a bigint or a cycle in the data).
+const unserializableResponse: string = JSON.stringify({
+    status: 'error',
+    error: 'Response could not be serialized.',
+    code: 'UNKNOWN'
+});
+
+function writeResponse<T>(res: http.ServerResponse, statusCode: number, response: ApiResponse<T>): void {
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+
+    let body: string;
+
+    try {
+        body = JSON.stringify(response);
+    } catch (err) {
+        statusCode = 500;
+        body = unserializableResponse;
+    }
+
+    res.writeHead(statusCode, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) });
+    res.end(body);
+}
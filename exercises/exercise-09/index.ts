@@ -1,4 +1,21 @@
 import chalk from 'chalk';
+import * as http from 'http';
+import {expect} from 'chai';
+import {ApiCallback, ApiResponse, NodeCallback, promisifyAll, promisifyNode} from './promisify';
+import {
+    ApiError,
+    ApiErrorCode,
+    BadRequestError,
+    CircuitOpenError,
+    createApiError,
+    MalformedResponseError,
+    NotFoundError,
+    OverflowError,
+    TimeoutError
+} from './errors';
+import {PromiseApiObject, Timers, withPolicies} from './middleware';
+import {ApiCache} from './cache';
+import {createHttpClient, route, startApiServer} from './http';
 
 /*
 
@@ -60,31 +77,6 @@ const users: User[] = [
     { type: 'user', name: 'Kate Müller', age: 23, occupation: 'Astronaut' }
 ];
 
-type ApiResponse<T> = (
-    {
-        status: 'success';
-        data: T;
-    } |
-    {
-        status: 'error';
-        error: string;
-    }
-);
-
-function promisify<T>(oldApi: (callback: (resp: ApiResponse<T>) => void) => void): () => Promise<T> {
-    return () => {
-        return new Promise<T>((resolve, reject) => {
-            oldApi((resp: ApiResponse<T>) => {
-                if (resp.status === 'error') {
-                    reject(resp.error);
-                } else {
-                    resolve(resp.data);
-                }
-            });
-        });
-    };
-}
-
 const oldApi = {
     requestAdmins(callback: (response: ApiResponse<Admin[]>) => void) {
         callback({
@@ -98,6 +90,12 @@ const oldApi = {
             data: users
         });
     },
+    requestUsersByAge(age: number, callback: (response: ApiResponse<User[]>) => void) {
+        callback({
+            status: 'success',
+            data: users.filter((user: User) => user.age === age)
+        });
+    },
     requestCurrentServerTime(callback: (response: ApiResponse<number>) => void) {
         callback({
             status: 'success',
@@ -107,18 +105,55 @@ const oldApi = {
     requestCoffeeMachineQueueLength(callback: (response: ApiResponse<number>) => void) {
         callback({
             status: 'error',
-            error: 'Numeric value has exceeded Number.MAX_SAFE_INTEGER.'
+            error: 'Numeric value has exceeded Number.MAX_SAFE_INTEGER.',
+            code: 'OVERFLOW'
         });
     }
 };
 
+function requestPersonByName(name: string, callback: NodeCallback<Person>) {
+    const person: Person | undefined = [ ...admins, ...users ].find((person: Person) => person.name === name);
+
+    if (!person) {
+        callback(new Error(`Person "${name}" is not found.`));
+    } else {
+        callback(null, person);
+    }
+}
+
 const api = {
-    requestAdmins: promisify(oldApi.requestAdmins),
-    requestUsers: promisify(oldApi.requestUsers),
-    requestCurrentServerTime: promisify(oldApi.requestCurrentServerTime),
-    requestCoffeeMachineQueueLength: promisify(oldApi.requestCoffeeMachineQueueLength)
+    ...promisifyAll(oldApi),
+    requestPersonByName: promisifyNode(requestPersonByName)
+};
+
+const resilientApi = withPolicies(api, {
+    requestAdmins: { timeout: { timeoutMs: 1000 } },
+    requestUsers: { timeout: { timeoutMs: 1000 } },
+    requestCurrentServerTime: {
+        timeout: { timeoutMs: 500 },
+        retry: { retries: 3, baseDelayMs: 100, maxDelayMs: 1000 }
+    },
+    requestCoffeeMachineQueueLength: {
+        timeout: { timeoutMs: 1000 },
+        circuitBreaker: { failureThreshold: 3, resetTimeoutMs: 30000 }
+    }
+});
+
+const apiRoutes = {
+    requestAdmins: route<[], Admin[]>('/admins'),
+    requestUsers: route<[], User[]>('/users'),
+    requestUsersByAge: route<[ number ], User[]>('/users/by-age'),
+    requestPersonByName: route<[ string ], Person>('/people/by-name'),
+    requestCurrentServerTime: route<[], number>('/server-time'),
+    requestCoffeeMachineQueueLength: route<[], number>('/coffee-machine/queue-length')
 };
 
+const apiCache = new ApiCache(resilientApi, {
+    requestAdmins: { ttlMs: 60000 },
+    requestUsers: { ttlMs: 60000, staleWhileRevalidateMs: 300000 },
+    requestUsersByAge: { ttlMs: 60000 }
+});
+
 function logPerson(person: Person) {
     console.log(
         ` - ${chalk.green(person.name)}, ${person.age}, ${person.type === 'admin' ? person.role : person.occupation}`
@@ -127,27 +162,514 @@ function logPerson(person: Person) {
 
 async function startTheApp() {
     console.log(chalk.yellow('Admins:'));
-    (await api.requestAdmins()).forEach(logPerson);
+    (await apiCache.api.requestAdmins()).forEach(logPerson);
     console.log();
 
     console.log(chalk.yellow('Users:'));
-    (await api.requestUsers()).forEach(logPerson);
+    (await apiCache.api.requestUsers()).forEach(logPerson);
     console.log();
 
+    console.log(chalk.yellow('Users aged 23:'));
+    (await apiCache.api.requestUsersByAge(23)).forEach(logPerson);
+    console.log();
+
+    console.log(chalk.yellow('Person named Bruce Willis:'));
+    logPerson(await apiCache.api.requestPersonByName('Bruce Willis'));
+    console.log();
+
+    const server = await startApiServer(apiRoutes, api);
+
+    try {
+        const httpApi = createHttpClient(apiRoutes, server.url);
+
+        console.log(chalk.yellow('Users over HTTP:'));
+        (await httpApi.requestUsers()).forEach(logPerson);
+        console.log();
+    } finally {
+        await server.close();
+    }
+
     console.log(chalk.yellow('Server time:'));
-    console.log(`   ${new Date(await api.requestCurrentServerTime()).toLocaleString()}`);
+    console.log(`   ${new Date(await apiCache.api.requestCurrentServerTime()).toLocaleString()}`);
     console.log();
 
     console.log(chalk.yellow('Coffee machine queue length:'));
-    console.log(`   ${await api.requestCoffeeMachineQueueLength()}`);
+    console.log(`   ${await apiCache.api.requestCoffeeMachineQueueLength()}`);
+}
+
+interface ScheduledTimer {
+    at: number;
+    callback: () => void;
+}
+
+class FakeTimers implements Timers {
+
+    protected time: number = 0;
+    protected scheduled: ScheduledTimer[] = [];
+
+    setTimeout(callback: () => void, ms: number): ScheduledTimer {
+        const timer: ScheduledTimer = { at: this.time + ms, callback };
+
+        this.scheduled.push(timer);
+
+        return timer;
+    }
+
+    clearTimeout(handle: unknown): void {
+        this.scheduled = this.scheduled.filter((timer: ScheduledTimer) => timer !== handle);
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    // fires the timers due within ms in order, letting the promises they settle run in between
+    async advance(ms: number): Promise<void> {
+        const until: number = this.time + ms;
+
+        for (;;) {
+            await settle();
+
+            const [ next ] = this.scheduled
+                .filter((timer: ScheduledTimer) => timer.at <= until)
+                .sort((a: ScheduledTimer, b: ScheduledTimer) => a.at - b.at);
+
+            if (!next) {
+                break;
+            }
+
+            this.clearTimeout(next);
+            this.time = next.at;
+            next.callback();
+        }
+
+        this.time = until;
+    }
+}
+
+class InspectableCache<Api extends PromiseApiObject<Api>> extends ApiCache<Api> {
+
+    countEntries(requestName: keyof Api): number {
+        const entries = this.entries.get(requestName);
+
+        return entries ? entries.size : 0;
+    }
+}
+
+function settle(): Promise<void> {
+    return new Promise<void>((resolve) => setImmediate(resolve));
+}
+
+function errorOf(promise: Promise<unknown>): Promise<unknown> {
+    return promise.then(() => undefined, (err: unknown) => err);
+}
+
+async function testApiErrors() {
+    const errorFor = (code?: ApiErrorCode): ApiError => createApiError('requestUsers', {status: 'error', error: 'Failed.', code});
+
+    // Envelope codes map to their ApiError subclasses
+    expect(errorFor('NOT_FOUND')).to.be.instanceOf(NotFoundError);
+    expect(errorFor('BAD_REQUEST')).to.be.instanceOf(BadRequestError);
+    expect(errorFor('OVERFLOW')).to.be.instanceOf(OverflowError).and.to.include({
+        code: 'OVERFLOW',
+        message: 'Failed.',
+        requestName: 'requestUsers'
+    });
+
+    // Other codes, unknown ones and a missing one give the base ApiError
+    expect(Object.getPrototypeOf(errorFor('TIMEOUT'))).to.equal(ApiError.prototype);
+    expect(Object.getPrototypeOf(errorFor('CLOCK_BROKEN' as ApiErrorCode))).to.equal(ApiError.prototype);
+    expect(errorFor()).to.be.instanceOf(ApiError).and.to.include({code: 'UNKNOWN'});
+    expect(errorFor()).not.to.be.instanceOf(NotFoundError);
+}
+
+async function testPromisify() {
+    // promisifyAll keeps methods bound to the original object and maps envelopes to data or errors
+    const counter = {
+        count: 41,
+        requestNextCount(callback: ApiCallback<number>) {
+            callback({status: 'success', data: ++this.count});
+        },
+        requestReset(callback: ApiCallback<number>) {
+            callback({status: 'error', error: 'Counter is locked.', code: 'BAD_REQUEST'});
+        }
+    };
+    const promisifiedCounter = promisifyAll(counter);
+
+    expect(await promisifiedCounter.requestNextCount()).to.equal(42);
+    expect(counter.count).to.equal(42);
+    expect(await errorOf(promisifiedCounter.requestReset())).to.be.instanceOf(BadRequestError)
+        .and.to.include({requestName: 'requestReset', message: 'Counter is locked.'});
+
+    // promisifyNode resolves with the value of an (err, value) callback and rejects with its error
+    const requestNodePerson = promisifyNode(requestPersonByName);
+
+    expect(await requestNodePerson('Jane Doe')).to.equal(admins[0]);
+    expect(await errorOf(requestNodePerson('Nobody'))).to.be.instanceOf(Error).and.to.include({
+        message: 'Person "Nobody" is not found.'
+    });
+}
+
+async function testRetry() {
+    const timers = new FakeTimers();
+    const calls: number[] = [];
+    const flakyApi = {
+        requestCurrentServerTime: async (): Promise<number> => {
+            calls.push(timers.now());
+
+            if (calls.length < 3) {
+                throw new ApiError('UNKNOWN', 'Connection reset.', 'requestCurrentServerTime');
+            }
+
+            return timers.now();
+        },
+        requestCoffeeMachineQueueLength: async (): Promise<number> => {
+            calls.push(timers.now());
+
+            throw new OverflowError('Numeric value has exceeded Number.MAX_SAFE_INTEGER.', 'requestCoffeeMachineQueueLength');
+        }
+    };
+    const retryPolicy = {retries: 2, baseDelayMs: 100, jitter: false};
+
+    // Failed calls are retried after exponentially growing delays
+    const retriedApi = withPolicies(flakyApi, {
+        requestCurrentServerTime: {retry: retryPolicy},
+        requestCoffeeMachineQueueLength: {retry: retryPolicy}
+    }, {timers});
+    const serverTime = retriedApi.requestCurrentServerTime();
+
+    await timers.advance(1000);
+
+    expect(await serverTime).to.equal(300);
+    expect(calls).to.eql([0, 100, 300]);
+
+    // Only transport errors and the codes listed in retryOn are retried, TIMEOUT and UNKNOWN by default
+    calls.length = 0;
+
+    expect(await errorOf(retriedApi.requestCoffeeMachineQueueLength())).to.be.instanceOf(OverflowError);
+    expect(calls).to.eql([1000]);
+
+    // Full jitter waits a random share of each delay
+    const jitteredApi = withPolicies(flakyApi, {
+        requestCoffeeMachineQueueLength: {retry: {retries: 2, baseDelayMs: 100, retryOn: ['OVERFLOW']}}
+    }, {timers, random: () => 0.5});
+
+    calls.length = 0;
+
+    const queueLength = errorOf(jitteredApi.requestCoffeeMachineQueueLength());
+
+    await timers.advance(1000);
+
+    expect(await queueLength).to.be.instanceOf(OverflowError);
+    expect(calls).to.eql([1000, 1050, 1150]);
+}
+
+async function testCircuitBreaker() {
+    const timers = new FakeTimers();
+    let isHealthy = false;
+    let calls = 0;
+    const breakerApi = withPolicies({
+        requestCoffeeMachineQueueLength: async (): Promise<number> => {
+            calls++;
+
+            if (!isHealthy) {
+                throw new ApiError('UNKNOWN', 'Coffee machine is out of order.', 'requestCoffeeMachineQueueLength');
+            }
+
+            return 3;
+        }
+    }, {
+        requestCoffeeMachineQueueLength: {circuitBreaker: {failureThreshold: 2, resetTimeoutMs: 1000}}
+    }, {timers});
+
+    // The circuit opens after failureThreshold consecutive failures and short-circuits calls until resetTimeoutMs passes
+    await errorOf(breakerApi.requestCoffeeMachineQueueLength());
+    await errorOf(breakerApi.requestCoffeeMachineQueueLength());
+
+    expect(await errorOf(breakerApi.requestCoffeeMachineQueueLength())).to.be.instanceOf(CircuitOpenError);
+    expect(calls).to.equal(2);
+
+    // Half-open lets a single trial call through, which opens the circuit again when it fails...
+    await timers.advance(1000);
+
+    expect(await errorOf(breakerApi.requestCoffeeMachineQueueLength())).to.have.property('code', 'UNKNOWN');
+    expect(await errorOf(breakerApi.requestCoffeeMachineQueueLength())).to.be.instanceOf(CircuitOpenError);
+    expect(calls).to.equal(3);
+
+    // ...and closes it when it succeeds
+    await timers.advance(1000);
+    isHealthy = true;
+
+    expect(await breakerApi.requestCoffeeMachineQueueLength()).to.equal(3);
+
+    isHealthy = false;
+
+    expect(await errorOf(breakerApi.requestCoffeeMachineQueueLength())).to.have.property('code', 'UNKNOWN');
+    expect(await errorOf(breakerApi.requestCoffeeMachineQueueLength())).to.have.property('code', 'UNKNOWN');
+    expect(await errorOf(breakerApi.requestCoffeeMachineQueueLength())).to.be.instanceOf(CircuitOpenError);
+    expect(calls).to.equal(6);
+
+    // Only transient failures count, answers such as NOT_FOUND leave the circuit closed
+    const lookupApi = withPolicies({
+        requestPersonByName: async (name: string): Promise<Person> => {
+            throw new NotFoundError(`Person "${name}" is not found.`, 'requestPersonByName');
+        }
+    }, {
+        requestPersonByName: {circuitBreaker: {failureThreshold: 2, resetTimeoutMs: 1000}}
+    }, {timers});
+
+    expect(await errorOf(lookupApi.requestPersonByName('Nobody'))).to.be.instanceOf(NotFoundError);
+    expect(await errorOf(lookupApi.requestPersonByName('Nobody'))).to.be.instanceOf(NotFoundError);
+    expect(await errorOf(lookupApi.requestPersonByName('Nobody'))).to.be.instanceOf(NotFoundError);
+}
+
+async function testTimeout() {
+    const timers = new FakeTimers();
+    const timeoutApi = withPolicies({
+        requestUsers: (): Promise<User[]> => new Promise<User[]>(() => undefined),
+        requestAdmins: async (): Promise<Admin[]> => admins
+    }, {
+        requestUsers: {timeout: {timeoutMs: 500}},
+        requestAdmins: {timeout: {timeoutMs: 500}}
+    }, {timers});
+    let hasSettled = false;
+
+    // A call which does not settle within timeoutMs is rejected with a TimeoutError
+    const usersError = errorOf(timeoutApi.requestUsers()).then((err: unknown) => {
+        hasSettled = true;
+
+        return err;
+    });
+
+    await timers.advance(499);
+
+    expect(hasSettled).to.equal(false);
+
+    await timers.advance(1);
+
+    expect(await usersError).to.be.instanceOf(TimeoutError).and.to.include({code: 'TIMEOUT', timeoutMs: 500});
+
+    // Calls settling in time resolve as usual
+    expect(await timeoutApi.requestAdmins()).to.eql(admins);
+}
+
+async function testCache() {
+    const timers = new FakeTimers();
+    const calls = {users: 0, admins: 0, usersByAge: 0, serverTime: 0, queueLength: 0};
+    const cache = new ApiCache({
+        requestUsers: async (): Promise<number> => ++calls.users,
+        requestAdmins: async (): Promise<number> => ++calls.admins,
+        requestUsersByAge: async (age: number): Promise<string> => `${age}#${++calls.usersByAge}`,
+        requestCurrentServerTime: async (): Promise<number> => {
+            calls.serverTime++;
+
+            throw new ApiError('UNKNOWN', 'Clock is out of sync.', 'requestCurrentServerTime');
+        },
+        requestCoffeeMachineQueueLength: async (): Promise<number> => {
+            calls.queueLength++;
+
+            throw new OverflowError('Numeric value has exceeded Number.MAX_SAFE_INTEGER.', 'requestCoffeeMachineQueueLength');
+        }
+    }, {
+        requestUsers: {ttlMs: 1000},
+        requestAdmins: {ttlMs: 1000, staleWhileRevalidateMs: 1000},
+        requestUsersByAge: {ttlMs: 1000},
+        requestCurrentServerTime: {ttlMs: 1000},
+        requestCoffeeMachineQueueLength: {ttlMs: 1000, cacheErrors: true}
+    }, timers);
+    const cachedApi = cache.api;
+
+    // Concurrent calls with the same arguments share a single request
+    expect(await Promise.all([cachedApi.requestUsers(), cachedApi.requestUsers()])).to.eql([1, 1]);
+    expect(calls.users).to.equal(1);
+
+    // Results are served from the cache until ttlMs has passed, separately per arguments
+    await timers.advance(999);
+
+    expect(await cachedApi.requestUsers()).to.equal(1);
+    expect(
+        await Promise.all([cachedApi.requestUsersByAge(23), cachedApi.requestUsersByAge(25), cachedApi.requestUsersByAge(23)])
+    ).to.eql(['23#1', '25#2', '23#1']);
+
+    await timers.advance(1);
+
+    expect(await cachedApi.requestUsers()).to.equal(2);
+
+    // invalidate() drops the cached results of a single request, or of all of them
+    cache.invalidate('requestUsers');
+
+    expect(await cachedApi.requestUsers()).to.equal(3);
+    expect(await cachedApi.requestUsersByAge(23)).to.equal('23#1');
+
+    cache.invalidate();
+
+    expect(await cachedApi.requestUsersByAge(23)).to.equal('23#3');
+
+    // Within staleWhileRevalidateMs after expiry the stale result is served while it is refreshed in the background...
+    expect(await cachedApi.requestAdmins()).to.equal(1);
+
+    await timers.advance(1500);
+
+    expect(await cachedApi.requestAdmins()).to.equal(1);
+
+    await settle();
+
+    expect(calls.admins).to.equal(2);
+    expect(await cachedApi.requestAdmins()).to.equal(2);
+
+    // ...and beyond it callers wait for a fresh one
+    await timers.advance(2000);
+
+    expect(await cachedApi.requestAdmins()).to.equal(3);
+
+    // Errors are cached only when cacheErrors is set
+    expect(await errorOf(cachedApi.requestCurrentServerTime())).to.have.property('code', 'UNKNOWN');
+    expect(await errorOf(cachedApi.requestCurrentServerTime())).to.have.property('code', 'UNKNOWN');
+    expect(calls.serverTime).to.equal(2);
+
+    expect(await errorOf(cachedApi.requestCoffeeMachineQueueLength())).to.be.instanceOf(OverflowError);
+    expect(await errorOf(cachedApi.requestCoffeeMachineQueueLength())).to.be.instanceOf(OverflowError);
+    expect(calls.queueLength).to.equal(1);
+
+    await timers.advance(1000);
+
+    expect(await errorOf(cachedApi.requestCoffeeMachineQueueLength())).to.be.instanceOf(OverflowError);
+    expect(calls.queueLength).to.equal(2);
+
+    // Expired results and errors are evicted, maxEntries bounds the results kept per request
+    const boundedCache = new InspectableCache({
+        requestUsersByAge: async (age: number): Promise<string> => {
+            if (age < 0) {
+                throw new BadRequestError('Age must not be negative.', 'requestUsersByAge');
+            }
+
+            return `${age}#${++calls.usersByAge}`;
+        }
+    }, {
+        requestUsersByAge: {ttlMs: 1000, cacheErrors: true, maxEntries: 2}
+    }, timers);
+
+    calls.usersByAge = 0;
+
+    await boundedCache.api.requestUsersByAge(21);
+    await boundedCache.api.requestUsersByAge(22);
+    await boundedCache.api.requestUsersByAge(23);
+
+    expect(boundedCache.countEntries('requestUsersByAge')).to.equal(2);
+    expect(await boundedCache.api.requestUsersByAge(23)).to.equal('23#3');
+    expect(await boundedCache.api.requestUsersByAge(21)).to.equal('21#4');
+    expect(await errorOf(boundedCache.api.requestUsersByAge(-1))).to.be.instanceOf(BadRequestError);
+    expect(boundedCache.countEntries('requestUsersByAge')).to.equal(2);
+
+    await timers.advance(1000);
+    await boundedCache.api.requestUsersByAge(24);
+
+    expect(boundedCache.countEntries('requestUsersByAge')).to.equal(1);
+}
+
+function listen(server: http.Server): Promise<string> {
+    return new Promise<string>((resolve) => server.listen(0, '127.0.0.1', () => {
+        resolve(`http://127.0.0.1:${(server.address() as { port: number }).port}`);
+    }));
 }
 
-startTheApp().then(
+function post(url: string, body: string): Promise<{ statusCode?: number, body: unknown }> {
+    return new Promise<{ statusCode?: number, body: unknown }>((resolve, reject) => {
+        const req: http.ClientRequest = http.request(url, {method: 'POST'}, (res: http.IncomingMessage) => {
+            const chunks: Buffer[] = [];
+
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => resolve({statusCode: res.statusCode, body: JSON.parse(Buffer.concat(chunks).toString('utf8'))}));
+        });
+
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+async function testHttp() {
+    const server = await startApiServer(apiRoutes, api);
+    const rawResponses: { [path: string]: string } = {
+        '/admins': 'Service Unavailable',
+        '/users': '{"data":[]}',
+        '/server-time': '{"status":"error","error":"Clock is broken.","code":"CLOCK_BROKEN"}',
+        '/users/by-age': '{"status":"error","error":"Age must be a number.","code":"BAD_REQUEST"}'
+    };
+    const rawServer = http.createServer((req: http.IncomingMessage, res: http.ServerResponse) => {
+        req.resume();
+        req.on('end', () => {
+            res.writeHead(503);
+            res.end(rawResponses[req.url || ''] || '');
+        });
+    });
+    const rawUrl = await listen(rawServer);
+    const bigintServer = await startApiServer({requestBigint: route<[], number>('/bigint')}, {
+        requestBigint: () => Promise.resolve(BigInt(1) as unknown as number)
+    });
+
+    try {
+        const httpApi = createHttpClient({...apiRoutes, requestSalaries: route<[], number>('/salaries')}, server.url);
+
+        // Arguments and results travel as JSON, errors keep their codes
+        expect(await httpApi.requestUsersByAge(23)).to.eql([users[1]]);
+        expect(await errorOf(httpApi.requestCoffeeMachineQueueLength())).to.be.instanceOf(OverflowError);
+        expect(await errorOf(httpApi.requestPersonByName('Nobody'))).to.include({code: 'UNKNOWN', message: 'Person "Nobody" is not found.'});
+        expect(await errorOf(httpApi.requestSalaries())).to.be.instanceOf(NotFoundError);
+
+        // Request bodies which are not a JSON array of arguments are rejected with 400
+        expect(await post(`${server.url}/users/by-age`, '{"age":23}')).to.eql({
+            statusCode: 400,
+            body: {status: 'error', error: 'Request body must be a JSON array of arguments.', code: 'BAD_REQUEST'}
+        });
+        expect(await post(`${server.url}/users/by-age`, '[23')).to.eql({
+            statusCode: 400,
+            body: {status: 'error', error: 'Request body is not valid JSON.', code: 'BAD_REQUEST'}
+        });
+
+        // Error envelopes are mapped to errors by code whatever the status, unknown codes become UNKNOWN
+        const brokenApi = createHttpClient(apiRoutes, rawUrl);
+
+        expect(await errorOf(brokenApi.requestUsersByAge(23))).to.be.instanceOf(BadRequestError);
+        expect(await errorOf(brokenApi.requestCurrentServerTime())).to.include({code: 'UNKNOWN', message: 'Clock is broken.'});
+
+        // Responses which are not an ApiResponse envelope are rejected with MalformedResponseError
+
+        expect(await errorOf(brokenApi.requestAdmins())).to.be.instanceOf(MalformedResponseError).and.to.include({statusCode: 503});
+        expect(await errorOf(brokenApi.requestUsers())).to.be.instanceOf(MalformedResponseError);
+
+        // Results which cannot be serialized are answered with a 500 error envelope
+        expect(await post(`${bigintServer.url}/bigint`, '[]')).to.eql({
+            statusCode: 500,
+            body: {status: 'error', error: 'Response could not be serialized.', code: 'UNKNOWN'}
+        });
+    } finally {
+        await server.close();
+        await bigintServer.close();
+        await new Promise<void>((resolve) => rawServer.close(() => resolve()));
+    }
+}
+
+async function runTests() {
+    await testApiErrors();
+    await testPromisify();
+    await testRetry();
+    await testCircuitBreaker();
+    await testTimeout();
+    await testCache();
+    await testHttp();
+}
+
+runTests().then(
+    () => console.log('All tests have succeeded, congratulations!'),
+    (e) => console.error(e.stack)
+).then(startTheApp).then(
     () => {
         console.log('Success!');
     },
     (e: Error) => {
-        console.log(`Error: "${e.message}", but it's fine, sometimes errors are inevitable.`);
+        const source: string = e instanceof ApiError ? ` (${e.code} in ${e.requestName})` : '';
+
+        console.log(`Error: "${e.message}"${source}, but it's fine, sometimes errors are inevitable.`);
     }
 );
 
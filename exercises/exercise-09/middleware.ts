@@ -0,0 +1,185 @@
+import {ApiError, ApiErrorCode, CircuitOpenError, TimeoutError} from './errors';
+
+export interface CallContext {
+    requestName: string;
+}
+
+export type Middleware = <T>(call: () => Promise<T>, context: CallContext) => Promise<T>;
+
+export interface Timers {
+    setTimeout(callback: () => void, ms: number): unknown;
+
+    clearTimeout(handle: unknown): void;
+
+    now(): number;
+}
+
+export interface TimeoutPolicy {
+    timeoutMs: number;
+}
+
+export interface RetryPolicy {
+    retries: number;
+    baseDelayMs: number;
+    maxDelayMs?: number;
+    jitter?: boolean;
+    retryOn?: ApiErrorCode[];
+}
+
+export interface CircuitBreakerPolicy {
+    failureThreshold: number;
+    resetTimeoutMs: number;
+    failOn?: ApiErrorCode[];
+}
+
+export interface MethodPolicy {
+    timeout?: TimeoutPolicy;
+    retry?: RetryPolicy;
+    circuitBreaker?: CircuitBreakerPolicy;
+}
+
+export type ApiPolicies<Api> = {
+    [K in keyof Api]?: MethodPolicy;
+};
+
+export interface MiddlewareOptions {
+    timers?: Timers;
+    random?: () => number;
+}
+
+// never[] parameters accept a method of any signature, its arguments are only ever forwarded as they are
+export type ApiMethod = (...args: never[]) => Promise<unknown>;
+
+export type PromiseApiObject<Api> = {
+    [K in keyof Api]: ApiMethod;
+};
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+export const transientErrorCodes: ApiErrorCode[] = [ 'TIMEOUT', 'UNKNOWN' ];
+
+export const systemTimers: Timers = {
+    setTimeout: (callback: () => void, ms: number) => setTimeout(callback, ms),
+    clearTimeout: (handle: unknown) => clearTimeout(handle as NodeJS.Timeout),
+    now: () => Date.now()
+};
+
+export function compose(middlewares: Middleware[]): Middleware {
+    return middlewares.reduceRight(
+        (next: Middleware, middleware: Middleware): Middleware =>
+            <T>(call: () => Promise<T>, context: CallContext): Promise<T> => middleware(() => next(call, context), context),
+        <T>(call: () => Promise<T>): Promise<T> => call()
+    );
+}
+
+export function timeout({ timeoutMs }: TimeoutPolicy, timers: Timers = systemTimers): Middleware {
+    return <T>(call: () => Promise<T>, { requestName }: CallContext): Promise<T> => {
+        return new Promise<T>((resolve, reject) => {
+            const handle: unknown = timers.setTimeout(() => reject(new TimeoutError(requestName, timeoutMs)), timeoutMs);
+
+            call().then(
+                (data: T) => {
+                    timers.clearTimeout(handle);
+                    resolve(data);
+                },
+                (err: unknown) => {
+                    timers.clearTimeout(handle);
+                    reject(err);
+                }
+            );
+        });
+    };
+}
+
+// Errors which are not ApiErrors never got an answer from the API (connection refused, reset etc.)
+export function isTransientError(err: unknown, codes: ApiErrorCode[] = transientErrorCodes): boolean {
+    return !(err instanceof ApiError) || codes.indexOf(err.code) !== -1;
+}
+
+export function retry(policy: RetryPolicy,
+                      timers: Timers = systemTimers,
+                      random: () => number = Math.random): Middleware {
+    const { retries, baseDelayMs, maxDelayMs = Infinity, jitter = true, retryOn = transientErrorCodes } = policy;
+    const sleep = (ms: number): Promise<void> => new Promise<void>((resolve) => timers.setTimeout(resolve, ms));
+
+    return async <T>(call: () => Promise<T>): Promise<T> => {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await call();
+            } catch (err) {
+                if (attempt >= retries || !isTransientError(err, retryOn)) {
+                    throw err;
+                }
+
+                const delay: number = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+
+                await sleep(jitter ? delay * random() : delay);
+            }
+        }
+    };
+}
+
+export function circuitBreaker({ failureThreshold, resetTimeoutMs, failOn = transientErrorCodes }: CircuitBreakerPolicy,
+                               timers: Timers = systemTimers): Middleware {
+    let state: CircuitState = 'closed';
+    let failures: number = 0;
+    let openedAt: number = 0;
+
+    return async <T>(call: () => Promise<T>, { requestName }: CallContext): Promise<T> => {
+        if (state === 'open' && timers.now() - openedAt >= resetTimeoutMs) {
+            state = 'half-open';
+        } else if (state !== 'closed') {
+            throw new CircuitOpenError(requestName, openedAt + resetTimeoutMs);
+        }
+
+        try {
+            const data: T = await call();
+
+            state = 'closed';
+            failures = 0;
+
+            return data;
+        } catch (err) {
+            // An answer such as NOT_FOUND means the API is up, it does not count as a failure
+            if (!isTransientError(err, failOn)) {
+                state = 'closed';
+                failures = 0;
+            } else if (state === 'half-open' || ++failures >= failureThreshold) {
+                state = 'open';
+                openedAt = timers.now();
+            }
+
+            throw err;
+        }
+    };
+}
+
+export function createMiddleware(policy: MethodPolicy,
+                                 { timers = systemTimers, random = Math.random }: MiddlewareOptions = {}): Middleware {
+    const middlewares: Middleware[] = [];
+
+    if (!!policy.circuitBreaker) {
+        middlewares.push(circuitBreaker(policy.circuitBreaker, timers));
+    }
+
+    if (!!policy.retry) {
+        middlewares.push(retry(policy.retry, timers, random));
+    }
+
+    if (!!policy.timeout) {
+        middlewares.push(timeout(policy.timeout, timers));
+    }
+
+    return compose(middlewares);
+}
+
+export function withPolicies<Api extends PromiseApiObject<Api>>(api: Api,
+                                                               policies: ApiPolicies<Api>,
+                                                               options: MiddlewareOptions = {}): Api {
+    return (Object.keys(api) as (keyof Api & string)[]).reduce((result: Api, requestName: keyof Api & string) => {
+        const method: ApiMethod = api[requestName];
+        const middleware: Middleware = createMiddleware(policies[requestName] || {}, options);
+
+        return { ...result, [requestName]: (...args: never[]) => middleware(() => method(...args), { requestName }) };
+    }, {} as Api);
+}
@@ -0,0 +1,66 @@
+import {ApiErrorCode, createApiError} from './errors';
+
+export interface ApiErrorResponse {
+    status: 'error';
+    error: string;
+    code?: ApiErrorCode;
+}
+
+export type ApiResponse<T> = (
+    {
+        status: 'success';
+        data: T;
+    } |
+    ApiErrorResponse
+);
+
+export type ApiCallback<T> = (response: ApiResponse<T>) => void;
+
+export type NodeCallback<T> = (err: Error | null, data?: T) => void;
+
+type CallbackApi<A extends unknown[], C> = (...args: [ ...A, C ]) => void;
+
+type PromiseApi<A extends unknown[], T> = (...args: A) => Promise<T>;
+
+type Promisified<M> = M extends (...args: [ ...infer A, ApiCallback<infer T> ]) => void ? PromiseApi<A, T> : never;
+
+export type PromisifiedApi<O> = {
+    [K in keyof O as Promisified<O[K]> extends never ? never : K]: Promisified<O[K]>;
+};
+
+export function promisify<A extends unknown[], T>(oldApi: CallbackApi<A, ApiCallback<T>>,
+                                                   requestName: string = oldApi.name): PromiseApi<A, T> {
+    return (...args: A) => {
+        return new Promise<T>((resolve, reject) => {
+            oldApi(...args, (resp: ApiResponse<T>) => {
+                if (resp.status === 'error') {
+                    reject(createApiError(requestName, resp));
+                } else {
+                    resolve(resp.data);
+                }
+            });
+        });
+    };
+}
+
+export function promisifyNode<A extends unknown[], T>(oldApi: CallbackApi<A, NodeCallback<T>>): PromiseApi<A, T> {
+    return (...args: A) => {
+        return new Promise<T>((resolve, reject) => {
+            oldApi(...args, (err: Error | null, data?: T) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(data as T);
+                }
+            });
+        });
+    };
+}
+
+export function promisifyAll<O extends object>(oldApi: O): PromisifiedApi<O> {
+    return Object.keys(oldApi).reduce((api: PromisifiedApi<O>, key: string) => {
+        const method: unknown = oldApi[key as keyof O];
+
+        return typeof method === 'function' ? { ...api, [key]: promisify(method.bind(oldApi), key) } : api;
+    }, {} as PromisifiedApi<O>);
+}
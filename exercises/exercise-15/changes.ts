@@ -0,0 +1,277 @@
+import {appendFile, FileStats, readBytes, replaceFile, statFile} from './storage';
+
+const fs = require('fs');
+const path = require('path');
+
+export type ChangeOperation = 'insert' | 'delete' | 'update';
+
+export interface ChangeEvent<T, K> {
+    op: ChangeOperation;
+    doc: T;
+    _id: K;
+    position: number;
+}
+
+export interface WatchOptions {
+    resumeAfter?: number;
+}
+
+export interface ChangeLogEntry {
+    position: number;
+    op: ChangeOperation;
+    line: string;
+}
+
+// how far a reader or writer got into the log file, so each read only parses what was appended since
+interface ChangeLogCursor {
+    ino: number;
+    offset: number;
+    position: number;
+}
+
+export class ChangeStream<E> implements AsyncIterableIterator<E> {
+
+    protected readonly buffer: E[] = [];
+    protected waiting: ((result: IteratorResult<E>) => void)[] = [];
+    protected closed: boolean = false;
+
+    constructor(protected readonly onClose: () => void) {
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<E> {
+        return this;
+    }
+
+    push(event: E): void {
+        if (this.closed) {
+            return;
+        }
+
+        const resolve: ((result: IteratorResult<E>) => void) | undefined = this.waiting.shift();
+
+        if (!!resolve) {
+            resolve({ done: false, value: event });
+        } else {
+            this.buffer.push(event);
+        }
+    }
+
+    async next(): Promise<IteratorResult<E>> {
+        if (this.buffer.length > 0) {
+            return { done: false, value: this.buffer.shift() as E };
+        }
+
+        if (this.closed) {
+            return { done: true, value: undefined };
+        }
+
+        return new Promise<IteratorResult<E>>((resolve) => this.waiting.push(resolve));
+    }
+
+    async return(): Promise<IteratorResult<E>> {
+        await this.close();
+
+        return { done: true, value: undefined };
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+
+        this.closed = true;
+        this.waiting.forEach((resolve: (result: IteratorResult<E>) => void) => resolve({ done: true, value: undefined }));
+        this.waiting = [];
+        this.onClose();
+    }
+}
+
+// entries carry their own positions, so a position is a resume token which survives in-place rewrites and trimming
+export class ChangeLog {
+
+    protected readonly readCursor: ChangeLogCursor = { ino: 0, offset: 0, position: 0 };
+    protected readonly appendCursor: ChangeLogCursor = { ino: 0, offset: 0, position: 0 };
+    protected memoryEntries: ChangeLogEntry[] = [];
+
+    constructor(protected readonly filename: string | undefined,
+                protected enabled: boolean = false) {
+    }
+
+    // once anyone watches a file, its log exists and every instance writing that file keeps it up to date
+    async isEnabled(): Promise<boolean> {
+        if (!this.enabled && !!this.filename) {
+            this.enabled = (await statFile(this.filename)) !== null;
+        }
+
+        return this.enabled;
+    }
+
+    async enable(): Promise<void> {
+        if (!!this.filename && !(await this.isEnabled())) {
+            await appendFile(this.filename, '');
+        }
+
+        this.enabled = true;
+    }
+
+    getPosition(): number {
+        return this.readCursor.position;
+    }
+
+    async append(changes: Pick<ChangeLogEntry, 'op' | 'line'>[]): Promise<void> {
+        if (changes.length === 0 || !(await this.isEnabled())) {
+            return;
+        }
+
+        // writers hold the write lock, so catching up first hands out positions no other process has used
+        await this.advance(this.appendCursor);
+
+        const entries: ChangeLogEntry[] = changes.map((change: Pick<ChangeLogEntry, 'op' | 'line'>, offset: number) =>
+            ({ position: this.appendCursor.position + offset, ...change })
+        );
+
+        if (!this.filename) {
+            this.memoryEntries = [ ...this.memoryEntries, ...entries ];
+        } else {
+            await appendFile(this.filename, entries.map((entry: ChangeLogEntry) => `${JSON.stringify(entry)}\n`).join(''));
+        }
+    }
+
+    async read(from: number): Promise<ChangeLogEntry[]> {
+        if (from < this.readCursor.position) {
+            this.rewind(this.readCursor, from);
+        }
+
+        return (await this.advance(this.readCursor)).filter((entry: ChangeLogEntry) => entry.position >= from);
+    }
+
+    async covers(position: number): Promise<boolean> {
+        const entries: ChangeLogEntry[] = await this.readEntries({ ino: 0, offset: 0, position: 0 });
+
+        return entries.length === 0 || entries[0].position <= position;
+    }
+
+    // the last entry is always kept, so the next position survives an empty log
+    async trim(before: number): Promise<void> {
+        const entries: ChangeLogEntry[] = await this.readEntries({ ino: 0, offset: 0, position: 0 });
+        const last: number = entries.length > 0 ? entries[entries.length - 1].position : 0;
+        const retained: ChangeLogEntry[] = entries.filter((entry: ChangeLogEntry) => entry.position >= Math.min(before, last));
+
+        if (retained.length === entries.length) {
+            return;
+        }
+
+        if (!this.filename) {
+            this.memoryEntries = retained;
+        } else {
+            await replaceFile(this.filename, retained.map((entry: ChangeLogEntry) => `${JSON.stringify(entry)}\n`).join(''));
+        }
+    }
+
+    protected async advance(cursor: ChangeLogCursor): Promise<ChangeLogEntry[]> {
+        const entries: ChangeLogEntry[] = (await this.readEntries(cursor))
+            .filter((entry: ChangeLogEntry) => entry.position >= cursor.position);
+
+        if (entries.length > 0) {
+            cursor.position = entries[entries.length - 1].position + 1;
+        }
+
+        return entries;
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected rewind(cursor: ChangeLogCursor, position: number): void {
+        cursor.offset = 0;
+        cursor.position = position;
+    }
+
+    protected async readEntries(cursor: ChangeLogCursor): Promise<ChangeLogEntry[]> {
+        if (!this.filename) {
+            return this.memoryEntries.slice();
+        }
+
+        const stats: FileStats | null = await statFile(this.filename);
+
+        if (!stats) {
+            return [];
+        }
+
+        // trimmed by someone else since, so the offset points into a different file
+        if (stats.ino !== cursor.ino || stats.size < cursor.offset) {
+            cursor.ino = stats.ino;
+            cursor.offset = 0;
+        }
+
+        const data: Buffer = await readBytes(this.filename, cursor.offset);
+        // a line still being appended is left for the next read
+        const end: number = data.lastIndexOf(10) + 1;
+
+        cursor.offset += end;
+
+        return data.toString('utf8', 0, end)
+            .split('\n')
+            .filter((line: string) => line.length > 0)
+            .map((line: string) => this.parseEntry(line))
+            .filter((entry: ChangeLogEntry | null): entry is ChangeLogEntry => !!entry);
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected parseEntry(line: string): ChangeLogEntry | null {
+        try {
+            const entry: ChangeLogEntry = JSON.parse(line);
+
+            return typeof entry.position === 'number' && typeof entry.op === 'string' && typeof entry.line === 'string'
+                ? entry
+                : null;
+        } catch (err) {
+            return null;
+        }
+    }
+}
+
+export class FileWatcher {
+
+    protected watcher: { close(): void } | null = null;
+    protected running: Promise<void> = Promise.resolve();
+    protected pending: boolean = false;
+
+    constructor(protected readonly filename: string | undefined,
+                protected readonly onChange: () => Promise<void>) {
+    }
+
+    start(): void {
+        const filename: string | undefined = this.filename;
+
+        if (!!this.watcher || !filename) {
+            return;
+        }
+
+        this.watcher = fs.watch(path.dirname(filename), (eventType: string, changedFilename: string | null) => {
+            if (changedFilename === path.basename(filename)) {
+                this.trigger();
+            }
+        });
+    }
+
+    stop(): void {
+        if (!!this.watcher) {
+            this.watcher.close();
+            this.watcher = null;
+        }
+    }
+
+    trigger(): Promise<void> {
+        if (this.pending) {
+            return this.running;
+        }
+
+        this.pending = true;
+        this.running = this.running.then(() => {
+            this.pending = false;
+
+            return this.onChange();
+        }).catch(() => undefined);
+
+        return this.running;
+    }
+}
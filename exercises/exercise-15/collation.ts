@@ -0,0 +1,126 @@
+export interface Collation {
+    locale?: string;
+    numeric?: boolean;
+    caseInsensitive?: boolean;
+    dates?: boolean;
+}
+
+export type NullsOrder = 'first' | 'last';
+
+const isoDatePattern: RegExp = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+type ValueType = 'null' | 'number' | 'string' | 'object' | 'array' | 'boolean' | 'date';
+
+const typeOrder: ValueType[] = [ 'null', 'number', 'string', 'object', 'array', 'boolean', 'date' ];
+
+export function isNullish(value: unknown): value is null | undefined {
+    return value === null || value === undefined;
+}
+
+export function parseIsoDate(value: string): number | undefined {
+    const time: number = isoDatePattern.test(value) ? Date.parse(value) : NaN;
+
+    return isNaN(time) ? undefined : time;
+}
+
+export class ValueComparator {
+
+    protected readonly collator: Intl.Collator;
+
+    constructor(readonly collation: Collation = {}) {
+        this.collator = new Intl.Collator(collation.locale, {
+            numeric: !!collation.numeric,
+            sensitivity: collation.caseInsensitive ? 'accent' : 'variant'
+        });
+    }
+
+    compare(a: unknown, b: unknown): number {
+        const aType: ValueType = this.typeOf(a);
+        const bType: ValueType = this.typeOf(b);
+
+        if (aType !== bType) {
+            return typeOrder.indexOf(aType) - typeOrder.indexOf(bType);
+        }
+
+        switch (aType) {
+            case 'number':
+            case 'boolean':
+                return this.compareOrdered(a, b);
+            case 'string':
+                return this.collator.compare(a as string, b as string);
+            case 'date':
+                return this.compareOrdered(this.timeOf(a), this.timeOf(b));
+            case 'array':
+                return this.compareSequences(a as unknown[], b as unknown[]);
+            case 'object':
+                return this.compareSequences(Object.entries(a as object), Object.entries(b as object));
+            default:
+                return 0;
+        }
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected typeOf(value: unknown): ValueType {
+        if (isNullish(value)) {
+            return 'null';
+        }
+
+        if (value instanceof Date || (typeof value === 'string' && !!this.collation.dates && parseIsoDate(value) !== undefined)) {
+            return 'date';
+        }
+
+        if (Array.isArray(value)) {
+            return 'array';
+        }
+
+        switch (typeof value) {
+            case 'number':
+            case 'bigint':
+                return 'number';
+            case 'string':
+                return 'string';
+            case 'boolean':
+                return 'boolean';
+            default:
+                return 'object';
+        }
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected timeOf(value: unknown): number {
+        return value instanceof Date ? value.getTime() : parseIsoDate(value as string) as number;
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected compareOrdered(a: unknown, b: unknown): number {
+        return (a as number) < (b as number) ? -1 : (a as number) > (b as number) ? 1 : 0;
+    }
+
+    protected compareSequences(a: unknown[], b: unknown[]): number {
+        for (let i = 0; i < Math.min(a.length, b.length); i++) {
+            const n: number = this.compare(a[i], b[i]);
+
+            if (n !== 0) {
+                return n;
+            }
+        }
+
+        return a.length - b.length;
+    }
+}
+
+const defaultComparator: ValueComparator = new ValueComparator();
+const comparators: WeakMap<Collation, ValueComparator> = new WeakMap<Collation, ValueComparator>();
+
+// collators are costly to create, so a collation shared by the comparisons of a query gets a single one
+export function getValueComparator(collation: Collation): ValueComparator {
+    if (Object.keys(collation).length === 0) {
+        return defaultComparator;
+    }
+
+    const comparator: ValueComparator = comparators.get(collation) || new ValueComparator(collation);
+
+    comparators.set(collation, comparator);
+
+    return comparator;
+}
@@ -0,0 +1,53 @@
+export class Cursor<R> implements AsyncIterableIterator<R> {
+
+    protected closed: boolean = false;
+
+    constructor(protected readonly source: AsyncIterableIterator<R>) {
+    }
+
+    [Symbol.asyncIterator](): AsyncIterableIterator<R> {
+        return this;
+    }
+
+    async next(): Promise<IteratorResult<R>> {
+        if (this.closed) {
+            return { done: true, value: undefined };
+        }
+
+        const result: IteratorResult<R> = await this.source.next();
+
+        if (result.done) {
+            this.closed = true;
+        }
+
+        return result;
+    }
+
+    async return(): Promise<IteratorResult<R>> {
+        await this.close();
+
+        return { done: true, value: undefined };
+    }
+
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+
+        this.closed = true;
+
+        if (!!this.source.return) {
+            await this.source.return();
+        }
+    }
+
+    async toArray(): Promise<R[]> {
+        const result: R[] = [];
+
+        for await (const record of this) {
+            result.push(record);
+        }
+
+        return result;
+    }
+}
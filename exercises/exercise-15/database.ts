@@ -1,41 +1,394 @@
-const readline = require('readline');
-const fs = require('fs');
+import {FieldIndex, IndexOptions, PersistedIndex} from './indexes';
+import {FileLock, LockOptions, WriteQueue} from './locking';
+import {Journal, JournalEntry, JournalReplay, LinePut, RecoveryResult} from './journal';
+import {Cursor} from './cursor';
+import {TextSearch, TextSearchOptions} from './text-search';
+import {Codec} from './schema';
+import {getIdGenerator, IdStrategy} from './ids';
+import {ChangeEvent, ChangeLog, ChangeLogEntry, ChangeOperation, ChangeStream, FileWatcher, WatchOptions} from './changes';
+import {LineFileAdapter, readFile, replaceFile, StorageAdapter} from './storage';
+import {QueryPlan, QueryProfiler} from './explain';
+import {Collation, isNullish, NullsOrder, ValueComparator} from './collation';
+import {
+    compareValues,
+    DeepPartial,
+    ElementOf,
+    getPathValue,
+    isEqualValue,
+    OmitPaths,
+    parseTagged,
+    Path,
+    PathValue,
+    PickPaths,
+    pickPaths,
+    setPathValue,
+    stringifyTagged,
+    unsetPathValue
+} from './fields';
 
-type QueryCriterion<T, K extends keyof T> = {
-    $gt: T[K]
-} | {
-    $lt: T[K]
-} | {
-    $eq: T[K]
-} | {
-    $in: ReadonlyArray<T[K]>
+import {DatabaseError, DuplicateKeyError, MalformedRecordError} from './errors';
+
+export {
+    DatabaseError,
+    DuplicateKeyError,
+    LockTimeoutError,
+    MalformedRecordError,
+    ValidationError
+} from './errors';
+export {Cursor} from './cursor';
+export {ChangeEvent, ChangeOperation, ChangeStream, WatchOptions} from './changes';
+export {JsonDocumentAdapter, LineFileAdapter, MemoryAdapter, StorageAdapter} from './storage';
+export {QueryPlan, QueryStageName, QueryStagePlan} from './explain';
+export {Collation, NullsOrder} from './collation';
+export {Codec, FieldSchema, Schema, SchemaDefinition} from './schema';
+export {autoIncrement, IdGenerator, IdStrategy, objectId, uuid} from './ids';
+export {DeepPartial, OmitPaths, Path, PathValue, PickPaths} from './fields';
+
+export interface ComparisonOperators<V> {
+    $eq?: V;
+    $ne?: V;
+    $gt?: V;
+    $gte?: V;
+    $lt?: V;
+    $lte?: V;
+    $in?: ReadonlyArray<V>;
+    $nin?: ReadonlyArray<V>;
+    $exists?: boolean;
+}
+
+interface RegexOperators {
+    $regex?: RegExp | string;
+    $options?: string;
+}
+
+interface ArrayOperators<E> {
+    $elemMatch?: E extends Date ? ValueCriterion<E> : E extends object ? Query<E> : ValueCriterion<E>;
+    $all?: ReadonlyArray<E>;
+    $size?: number;
+}
+
+export type ValueCriterion<V> = ComparisonOperators<V | ElementOf<V>> & {
+    $not?: ValueCriterion<V>;
+} & (NonNullable<ElementOf<V>> extends string ? RegexOperators : {})
+    & (NonNullable<V> extends ReadonlyArray<infer E> ? ArrayOperators<E> : {});
+
+export type QueryCriterion<T, K extends keyof T> = ValueCriterion<T[K]>;
+
+interface CriterionOperators extends ComparisonOperators<unknown>, RegexOperators {
+    $not?: CriterionOperators;
+    $elemMatch?: CriterionOperators | Query<PlainRecord>;
+    $all?: ReadonlyArray<unknown>;
+    $size?: number;
 }
 
-type QueryCondition<T> = {
-    [K in keyof T]?: QueryCriterion<T, K>
+export type QueryCondition<T> = {
+    [P in Path<T>]?: ValueCriterion<PathValue<T, P>>
 }
 
-type Query<T> = QueryCondition<T> | {
+export type Query<T> = QueryCondition<T> | {
     $and: ReadonlyArray<Query<T>>
 } | {
     $or: ReadonlyArray<Query<T>>
+} | {
+    $nor: ReadonlyArray<Query<T>>
 } | {
     $text: string;
 }
 
 type Comparator<T> = (a: T, b: T) => number;
 
+interface TextScoreMeta {
+    $meta: 'textScore';
+}
+
+type SortDirection = 1 | -1;
+
+interface SortField<V> {
+    direction?: SortDirection;
+    nulls?: NullsOrder;
+    compare?: Comparator<NonNullable<V>>;
+}
+
+type SortSpecification<V> = SortDirection | SortField<V> | TextScoreMeta;
+
 type Sort<T> = {
-    [K in keyof T]?: 1 | -1;
+    [P in Path<T> | 'score']?: P extends Path<T> ? SortDirection | SortField<PathValue<T, P>> : TextScoreMeta;
 }
 
-type Projection<T> = {
-    [K in keyof T]?: 1;
+type InclusionProjection<T> = {
+    [P in Path<T>]?: P extends '_id' ? 0 | 1 : 1;
 }
 
-interface FindOptions<T> {
+type ExclusionProjection<T> = {
+    [P in Path<T>]?: 0;
+}
+
+type Projection<T> = InclusionProjection<T> | ExclusionProjection<T>;
+
+type ProjectedPaths<P, V> = {
+    [K in keyof P]-?: P[K] extends V ? K : never;
+}[keyof P] & string;
+
+export type Projected<T, P> = Projection<T> extends P
+    ? DeepPartial<T>
+    : [ ProjectedPaths<P, 1> ] extends [ never ]
+        ? OmitPaths<T, ProjectedPaths<P, 0>>
+        : PickPaths<T, ProjectedPaths<P, 1> | (P extends { _id: 0 } ? never : '_id')>;
+
+interface FindOptions<T, P extends Projection<T> = Projection<T>> {
     sort?: Sort<T>;
-    projection?: Projection<T>;
+    collation?: Collation;
+    projection?: P;
+    limit?: number;
+    skip?: number;
+    after?: string;
+}
+
+type KeysMatching<T, V> = {
+    [K in keyof T]-?: T[K] extends V ? K : never
+}[keyof T];
+
+type ArrayKeys<T> = {
+    [K in keyof T]-?: NonNullable<T[K]> extends ReadonlyArray<unknown> ? K : never
+}[keyof T];
+
+type OptionalKeys<T> = {
+    [K in keyof T]-?: {} extends Pick<T, K> ? K : never
+}[keyof T];
+
+type ElementType<A> = A extends ReadonlyArray<infer E> ? E : never;
+
+type Flatten<T> = {
+    [K in keyof T]: T[K];
+};
+
+type PlainRecord = {
+    [key: string]: unknown;
+};
+
+type Accumulator<T> = {
+    $sum: KeysMatching<T, number> | 1
+} | {
+    $avg: KeysMatching<T, number>
+} | {
+    $min: keyof T
+} | {
+    $max: keyof T
+} | {
+    $count: {}
+}
+
+interface GroupSpec<T> {
+    _id: keyof T | null;
+
+    [field: string]: Accumulator<T> | keyof T | null;
+}
+
+type AccumulatorResult<T, A> = A extends { $min: infer K }
+    ? K extends keyof T ? T[K] : never
+    : A extends { $max: infer K }
+        ? K extends keyof T ? T[K] : never
+        : number;
+
+type GroupOutput<T, G> = Flatten<{
+    _id: G extends { _id: infer K } ? K extends keyof T ? T[K] : null : null;
+} & {
+    [F in Exclude<keyof G, '_id'>]: AccumulatorResult<T, G[F]>;
+}>;
+
+type AggregationStage<T> = {
+    $match: Query<T>
+} | {
+    $group: GroupSpec<T>
+} | {
+    $sort: Sort<T>
+} | {
+    $project: Projection<T>
+} | {
+    $limit: number
+} | {
+    $skip: number
+} | {
+    $unwind: ArrayKeys<T>
+}
+
+type StageOutput<T, S> = S extends { $group: infer G }
+    ? GroupOutput<T, G>
+    : S extends { $project: infer P }
+        ? Flatten<Projected<T, P>>
+        : S extends { $unwind: infer K }
+            ? Flatten<Omit<T, K & keyof T> & { [P in K & keyof T]-?: ElementType<NonNullable<T[P]>> }>
+            : T;
+
+type PipelineOutput<T, S extends ReadonlyArray<unknown>> = S extends readonly [ infer First, ...infer Rest ]
+    ? PipelineOutput<StageOutput<T, First>, Rest>
+    : T;
+
+type StagesBefore<S, I, Preceding extends unknown[] = []> = `${Preceding['length']}` extends I
+    ? Preceding
+    : S extends readonly [ infer First, ...infer Rest ]
+        ? StagesBefore<Rest, I, [ ...Preceding, First ]>
+        : Preceding;
+
+// sort specifications are all optional, so fields of an earlier stage's record would otherwise pass as well
+type UnknownSortFields<S, T> = S extends { $sort: infer O }
+    ? [ Exclude<keyof O, keyof Sort<T>> ] extends [ never ] ? unknown : { $sort: { [K in Exclude<keyof O, keyof Sort<T>>]: never } }
+    : unknown;
+
+type Pipeline<T, S extends ReadonlyArray<unknown>> = {
+    [I in keyof S]: S[I]
+        & AggregationStage<PipelineOutput<T, StagesBefore<S, I>>>
+        & UnknownSortFields<S[I], PipelineOutput<T, StagesBefore<S, I>>>;
+};
+
+interface UpdateModifier<T> {
+    $set?: Partial<Omit<T, '_id'>>;
+    $unset?: {
+        [K in OptionalKeys<T>]?: 1 | true;
+    };
+    $inc?: {
+        [K in KeysMatching<T, number>]?: number;
+    };
+    $push?: {
+        [K in ArrayKeys<T>]?: ElementType<NonNullable<T[K]>>;
+    };
+    $pull?: {
+        [K in ArrayKeys<T>]?: ElementType<NonNullable<T[K]>>;
+    };
+}
+
+interface UpdateOptions {
+    upsert?: boolean;
+}
+
+interface UpdateResult<K> {
+    matchedCount: number;
+    modifiedCount: number;
+    upsertedId?: K;
+}
+
+interface CompactionPolicy {
+    deletedRatio: number;
+    minLines?: number;
+}
+
+interface CompactionResult {
+    scannedLines: number;
+    removedLines: number;
+}
+
+interface DatabaseOptions<T, K> {
+    lock?: LockOptions | false;
+    autoCompact?: CompactionPolicy;
+    journal?: boolean;
+    changeLog?: boolean;
+    textSearch?: TextSearchOptions;
+    schema?: Codec<T>;
+    malformedLines?: 'reject' | 'quarantine';
+    idStrategy?: IdStrategy<K>;
+    storage?: StorageAdapter;
+    slowQuery?: SlowQueryOptions<T>;
+}
+
+export interface SlowQuery<T> {
+    query: Query<T>;
+    options: FindOptions<T>;
+    plan: QueryPlan;
+}
+
+interface SlowQueryOptions<T> {
+    thresholdMs: number;
+    log: (slowQuery: SlowQuery<T>) => void;
+}
+
+interface ProfiledFind<T> {
+    records: (T | DeepPartial<T>)[];
+    plan: QueryPlan;
+}
+
+interface LineDeletion<T> {
+    updatedLines: string[];
+    deleted: [ T, number ][];
+}
+
+interface LineUpdate<T> {
+    updatedLines: string[];
+    matchedCount: number;
+    changes: [ T, T, number ][];
+}
+
+interface KnownIds<K> {
+    all: K[];
+    live: Set<K>;
+}
+
+export type InsertRecord<T extends { _id: unknown }> = Omit<T, '_id'> & {
+    _id?: T['_id'];
+};
+
+interface BulkUpdate<T> extends UpdateOptions {
+    filter: Query<T>;
+    update: UpdateModifier<T>;
+}
+
+export type BulkOperation<T extends { _id: unknown }> = {
+    insertOne: InsertRecord<T>
+} | {
+    deleteMany: Query<T>
+} | {
+    updateOne: BulkUpdate<T>
+} | {
+    updateMany: BulkUpdate<T>
+};
+
+interface BulkWriteOptions {
+    ordered?: boolean;
+}
+
+export interface BulkOperationResult<T, K> {
+    status: 'applied' | 'failed' | 'skipped';
+    inserted?: T;
+    deletedCount?: number;
+    matchedCount?: number;
+    modifiedCount?: number;
+    upsertedId?: K;
+    error?: Error;
+}
+
+export interface BulkWriteResult<T, K> {
+    insertedCount: number;
+    deletedCount: number;
+    matchedCount: number;
+    modifiedCount: number;
+    upsertedCount: number;
+    failedCount: number;
+    results: BulkOperationResult<T, K>[];
+}
+
+interface Watcher<T, K> {
+    query: Query<T>;
+    stream: ChangeStream<ChangeEvent<T, K>>;
+    position: number;
+}
+
+interface BulkState<T extends object, K> {
+    lines: string[];
+    ids: KnownIds<K>;
+    indexes: FieldIndex<T>[];
+}
+
+export interface Transaction<T extends { _id: unknown }, K> {
+    find(query: Query<T>): Promise<T[]>;
+    find(query: Query<T>, options: Omit<FindOptions<T>, 'projection'>): Promise<T[]>;
+    find<P extends Projection<T>>(query: Query<T>, options: FindOptions<T, P>): Promise<Projected<T, P>[]>;
+
+    insert(record: InsertRecord<T>): Promise<T>;
+
+    delete(query: Query<T>): Promise<void>;
+
+    update(query: Query<T>, modifier: UpdateModifier<T>, options?: UpdateOptions): Promise<UpdateResult<K>>;
+
+    updateOne(query: Query<T>, modifier: UpdateModifier<T>, options?: UpdateOptions): Promise<UpdateResult<K>>;
 }
 
 interface PipelineOperator<T extends object, R extends object> {
@@ -48,120 +401,340 @@ class QueryChecker<T extends object> {
 
     constructor(protected readonly dbRecord: T,
                 protected readonly query: Query<T>,
-                protected readonly fullTextSearchFieldNames: (keyof T)[]) {
+                protected readonly textSearch: TextSearch,
+                protected readonly collation: Collation = {}) {
     }
 
     isOk(): boolean {
         if ('$and' in this.query) {
             return this.query.$and
-                .every((subQuery: Query<T>) => new QueryChecker(this.dbRecord, subQuery, this.fullTextSearchFieldNames).isOk());
+                .every((subQuery: Query<T>) => new QueryChecker(this.dbRecord, subQuery, this.textSearch, this.collation).isOk());
         }
 
         if ('$or' in this.query) {
             return this.query.$or
-                .some((subQuery: Query<T>) => new QueryChecker(this.dbRecord, subQuery, this.fullTextSearchFieldNames).isOk());
+                .some((subQuery: Query<T>) => new QueryChecker(this.dbRecord, subQuery, this.textSearch, this.collation).isOk());
         }
 
-        if ('$text' in this.query) {
-            const wordsToSearch: readonly string[] = this.extractWords(this.query.$text);
-            const wordsToSearchIn: readonly string[][] = this.fullTextSearchFieldNames.map(
-                (name: keyof T) => this.extractWords(String(this.dbRecord[name]))
-            );
+        if ('$nor' in this.query) {
+            return !this.query.$nor
+                .some((subQuery: Query<T>) => new QueryChecker(this.dbRecord, subQuery, this.textSearch, this.collation).isOk());
+        }
 
-            return wordsToSearch.every((word: string) => wordsToSearchIn.some((words: string[]) => words.includes(word)));
+        if ('$text' in this.query) {
+            return this.textSearch.matches(this.dbRecord, this.query.$text);
         }
 
-        const entries: [ keyof T, QueryCriterion<T, keyof T> ][] = Object.entries(this.query) as [ keyof T, QueryCriterion<T, keyof T> ][];
+        const entries: [ string, CriterionOperators ][] = Object.entries(this.query);
 
-        return entries.every(([ key, criterion ]: [ keyof T, QueryCriterion<T, keyof T> ]) => this.checkCriterion(key, criterion));
+        return entries.every(([ path, criterion ]: [ string, CriterionOperators ]) => this.checkCriterion(path, criterion));
     }
 
-    // noinspection JSMethodCanBeStatic
-    protected extractWords(text: string): string[] {
-        return text.toLowerCase().split(' ');
+    protected checkCriterion(path: string, criterion: CriterionOperators): boolean {
+        return this.checkOperators(getPathValue(this.dbRecord, path), criterion);
     }
 
-    protected checkCriterion<K extends keyof T>(key: K, criterion: QueryCriterion<T, K>): boolean {
-        const valueToCheck: T[K] = this.dbRecord[key];
+    protected checkOperators(valueToCheck: unknown, criterion: CriterionOperators): boolean {
+        const { $eq, $ne, $gt, $gte, $lt, $lte, $in, $nin, $exists, $regex, $options, $not, $elemMatch, $all, $size } = criterion;
+        const candidates: unknown[] = Array.isArray(valueToCheck) ? [ valueToCheck, ...valueToCheck ] : [ valueToCheck ];
+        const matchesAny = (predicate: (candidate: unknown) => boolean): boolean => candidates.some(predicate);
+        const isInRange = (bound: unknown, accepts: (comparison: number) => boolean): boolean => matchesAny(
+            (candidate: unknown) => {
+                const comparison: number | undefined = compareValues(candidate, bound, this.collation);
+
+                return comparison !== undefined && accepts(comparison);
+            }
+        );
+
+        if ('$eq' in criterion && !matchesAny((candidate: unknown) => isEqualValue(candidate, $eq))) {
+            return false;
+        }
+
+        if ('$ne' in criterion && matchesAny((candidate: unknown) => isEqualValue(candidate, $ne))) {
+            return false;
+        }
+
+        if ($gt !== undefined && !isInRange($gt, (comparison: number) => comparison > 0)) {
+            return false;
+        }
+
+        if ($gte !== undefined && !isInRange($gte, (comparison: number) => comparison >= 0)) {
+            return false;
+        }
+
+        if ($lt !== undefined && !isInRange($lt, (comparison: number) => comparison < 0)) {
+            return false;
+        }
+
+        if ($lte !== undefined && !isInRange($lte, (comparison: number) => comparison <= 0)) {
+            return false;
+        }
+
+        if ($in !== undefined && !matchesAny((candidate: unknown) => $in.some((value: unknown) => isEqualValue(candidate, value)))) {
+            return false;
+        }
+
+        if ($nin !== undefined && matchesAny((candidate: unknown) => $nin.some((value: unknown) => isEqualValue(candidate, value)))) {
+            return false;
+        }
+
+        if ($exists !== undefined && (valueToCheck !== undefined) !== $exists) {
+            return false;
+        }
+
+        if ($regex !== undefined && !matchesAny((candidate: unknown) =>
+            typeof candidate === 'string' && new RegExp($regex, $options).test(candidate)
+        )) {
+            return false;
+        }
 
-        if ('$in' in criterion) {
-            return criterion.$in.some((value: T[K]) => value === valueToCheck);
+        if ($size !== undefined && !(Array.isArray(valueToCheck) && valueToCheck.length === $size)) {
+            return false;
         }
 
-        if ('$gt' in criterion) {
-            return criterion.$gt < valueToCheck;
+        if ($all !== undefined && !(Array.isArray(valueToCheck) && $all.every((value: unknown) =>
+            valueToCheck.some((elm: unknown) => isEqualValue(elm, value))
+        ))) {
+            return false;
         }
 
-        if ('$lt' in criterion) {
-            return criterion.$lt > valueToCheck;
+        if ($elemMatch !== undefined && !(Array.isArray(valueToCheck) && valueToCheck.some((elm: unknown) =>
+            typeof elm === 'object' && elm !== null && !(elm instanceof Date)
+                ? new QueryChecker(elm, $elemMatch as Query<object>, this.textSearch, this.collation).isOk()
+                : this.checkOperators(elm, $elemMatch as CriterionOperators)
+        ))) {
+            return false;
         }
 
-        return criterion.$eq === valueToCheck;
+        return $not === undefined || !this.checkOperators(valueToCheck, $not);
     }
 }
 
 class Filter<T extends object> implements PipelineOperator<T, T> {
     constructor(readonly arr: T[],
                 protected readonly query: Query<T>,
-                protected readonly fullTextSearchFieldNames: (keyof T)[]) {
+                protected readonly textSearch: TextSearch,
+                protected readonly collation: Collation = {}) {
     }
 
     get(): T[] {
-        return this.arr.filter((elm: T): boolean => new QueryChecker(elm, this.query, this.fullTextSearchFieldNames).isOk());
+        return this.arr.filter((elm: T): boolean => new QueryChecker(elm, this.query, this.textSearch, this.collation).isOk());
     }
 }
 
 class Sorter<T extends object> implements PipelineOperator<T, T> {
 
+    protected readonly comparators: ReadonlyArray<Comparator<T>>;
+
     constructor(readonly arr: T[],
-                readonly sort: Sort<T>) {
-    }
+                readonly sort: Sort<T>,
+                protected readonly scores: Map<T, number> = new Map<T, number>(),
+                collation: Collation = {}) {
+        const valueComparator: ValueComparator = new ValueComparator(collation);
+        const scoreComparator: Comparator<T> = (a: T, b: T): number => (this.scores.get(b) || 0) - (this.scores.get(a) || 0);
+        const comparatorFactory = (path: string, field: SortField<unknown>): Comparator<T> => (a: T, b: T): number => {
+            const aValue: unknown = getPathValue(a, path);
+            const bValue: unknown = getPathValue(b, path);
+            const direction: SortDirection = field.direction || 1;
 
-    get(): T[] {
-        const comparatorFactory = (key: keyof T, sorter: 1 | -1): Comparator<T> => (a: T, b: T): number => {
-            if (typeof a[key] === 'number' && typeof b[key] === 'number') {
-                return (Number(a[key]) - Number(b[key])) * sorter;
+            if (isNullish(aValue) || isNullish(bValue)) {
+                const nulls: NullsOrder = field.nulls || (direction === 1 ? 'first' : 'last');
+
+                return (Number(isNullish(bValue)) - Number(isNullish(aValue))) * (nulls === 'first' ? 1 : -1);
             }
 
-            if (typeof a[key] === 'string' && typeof b[key] === 'string') {
-                return sorter * String(a[key]).localeCompare(String(b[key]));
+            if (!!field.compare) {
+                return direction * field.compare(aValue as NonNullable<unknown>, bValue as NonNullable<unknown>);
             }
 
-            return 0;
+            return direction * valueComparator.compare(aValue, bValue);
         };
-        const comparators: ReadonlyArray<Comparator<T>> = (Object.entries(this.sort) as [ keyof T, 1 | -1 ][])
-            .map(([ key, sorter ]: [ keyof T, 1 | -1 ]) => comparatorFactory(key, sorter));
-
-        return this.arr.sort((a: T, b: T): number => {
-            for (let comparator of comparators) {
-                const n: number = comparator(a, b);
 
-                if (n !== 0) {
-                    return n;
+        this.comparators = (Object.entries(sort) as [ string, SortSpecification<unknown> ][])
+            .map(([ path, specification ]: [ string, SortSpecification<unknown> ]) => {
+                if (typeof specification !== 'object') {
+                    return comparatorFactory(path, { direction: specification });
                 }
+
+                return '$meta' in specification ? scoreComparator : comparatorFactory(path, specification);
+            });
+    }
+
+    get(): T[] {
+        return this.arr
+            .map((record: T, position: number): [ T, number ] => [ record, position ])
+            .sort(([ a, aPosition ]: [ T, number ], [ b, bPosition ]: [ T, number ]): number =>
+                this.compare(a, b) || aPosition - bPosition
+            )
+            .map(([ record ]: [ T, number ]) => record);
+    }
+
+    compare(a: T, b: T): number {
+        for (let comparator of this.comparators) {
+            const n: number = comparator(a, b);
+
+            if (n !== 0) {
+                return n;
             }
+        }
 
-            return 0;
-        });
+        return 0;
     }
 }
 
-class Projector<T extends object> implements PipelineOperator<T, Partial<T>> {
+class Projector<T extends object> implements PipelineOperator<T, DeepPartial<T>> {
 
     constructor(readonly arr: T[],
                 protected readonly projector: Projection<T>) {
     }
 
-    get(): Partial<T>[] {
-        return this.arr.map((line: T): Partial<T> => {
-            const projectionKeys: (keyof T)[] = Object.keys({ ...this.projector }) as (keyof T)[];
-            const partial: Partial<T> = projectionKeys.reduce(
-                (prev: Partial<T>, cur: keyof T): Partial<T> => ({ ...prev, [cur]: line[cur] }),
-                {}
-            );
+    get(): DeepPartial<T>[] {
+        const projection: [ string, 0 | 1 ][] = Object.entries({ ...this.projector });
+        const includedPaths: string[] = projection
+            .filter(([ , value ]: [ string, 0 | 1 ]) => value === 1)
+            .map(([ path ]: [ string, 0 | 1 ]) => path);
+        const excludedPaths: string[] = projection
+            .filter(([ , value ]: [ string, 0 | 1 ]) => value === 0)
+            .map(([ path ]: [ string, 0 | 1 ]) => path);
+
+        if (includedPaths.length > 0 && excludedPaths.some((path: string) => path !== '_id')) {
+            throw new DatabaseError('Projection cannot mix inclusion and exclusion');
+        }
+
+        return this.arr.map((line: T): DeepPartial<T> => {
+            if (includedPaths.length === 0) {
+                return excludedPaths.reduce((prev: T, cur: string): T => unsetPathValue(prev, cur), line);
+            }
+
+            const paths: string[] = excludedPaths.includes('_id') ? includedPaths : [ '_id', ...includedPaths ];
+
+            return pickPaths(line as object as PlainRecord, paths) as DeepPartial<T>;
+        });
+    }
+}
+
+class Grouper<T extends object> implements PipelineOperator<T, PlainRecord> {
+
+    constructor(readonly arr: T[],
+                protected readonly spec: GroupSpec<T>) {
+    }
+
+    get(): PlainRecord[] {
+        const groups: Map<unknown, T[]> = new Map<unknown, T[]>();
+        const groupKey: keyof T | null = this.spec._id;
 
-            return partial;
+        this.arr.forEach((record: T) => {
+            const key: unknown = groupKey === null ? null : record[groupKey];
+
+            groups.set(key, [ ...(groups.get(key) || []), record ]);
         });
+
+        const result: PlainRecord[] = [];
+
+        groups.forEach((records: T[], key: unknown) => result.push(
+            Object.keys(this.spec)
+                .filter((field: string) => field !== '_id')
+                .reduce(
+                    (prev: PlainRecord, field: string): PlainRecord => ({
+                        ...prev,
+                        [field]: this.accumulate(records, this.spec[field] as Accumulator<T>)
+                    }),
+                    { _id: key }
+                )
+        ));
+
+        return result;
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected accumulate(records: T[], accumulator: Accumulator<T>): unknown {
+        if ('$count' in accumulator) {
+            return records.length;
+        }
+
+        if ('$sum' in accumulator) {
+            const key: keyof T | 1 = accumulator.$sum;
+
+            return key === 1
+                ? records.length
+                : records.reduce((sum: number, record: T) => sum + Number(record[key]), 0);
+        }
+
+        if ('$avg' in accumulator) {
+            const key: keyof T = accumulator.$avg;
+
+            return records.reduce((sum: number, record: T) => sum + Number(record[key]), 0) / records.length;
+        }
+
+        const [ key, pick ]: [ keyof T, (a: T[keyof T], b: T[keyof T]) => boolean ] = '$min' in accumulator
+            ? [ accumulator.$min, (a: T[keyof T], b: T[keyof T]) => a < b ]
+            : [ accumulator.$max, (a: T[keyof T], b: T[keyof T]) => a > b ];
+
+        return records
+            .map((record: T) => record[key])
+            .reduce((prev: T[keyof T], cur: T[keyof T]) => pick(cur, prev) ? cur : prev);
+    }
+}
+
+class Unwinder<T extends object> implements PipelineOperator<T, PlainRecord> {
+
+    constructor(readonly arr: T[],
+                protected readonly field: keyof T) {
+    }
+
+    get(): PlainRecord[] {
+        return this.arr.reduce((prev: PlainRecord[], record: T): PlainRecord[] => {
+            const values: unknown = record[this.field];
+
+            return Array.isArray(values)
+                ? [ ...prev, ...values.map((value: unknown): PlainRecord => ({ ...record, [this.field]: value })) ]
+                : prev;
+        }, []);
+    }
+}
+
+class Updater<T extends object> {
+
+    constructor(protected readonly dbRecord: T,
+                protected readonly modifier: UpdateModifier<T>) {
+    }
+
+    get(): T {
+        const updated: { [key: string]: unknown } = { ...this.dbRecord } as { [key: string]: unknown };
+        const { $set, $unset, $inc, $push, $pull } = this.modifier;
+
+        if (!!$set) {
+            Object.entries($set).forEach(([ key, value ]: [ string, unknown ]) => updated[key] = value);
+        }
+
+        if (!!$unset) {
+            Object.keys($unset).forEach((key: string) => delete updated[key]);
+        }
+
+        if (!!$inc) {
+            Object.entries($inc).forEach(([ key, value ]: [ string, unknown ]) => {
+                updated[key] = Number(updated[key] || 0) + Number(value);
+            });
+        }
+
+        if (!!$push) {
+            Object.entries($push).forEach(([ key, value ]: [ string, unknown ]) => {
+                updated[key] = [ ...this.getArray(updated[key]), value ];
+            });
+        }
+
+        if (!!$pull) {
+            Object.entries($pull).forEach(([ key, value ]: [ string, unknown ]) => {
+                updated[key] = this.getArray(updated[key]).filter((elm: unknown) => !isEqualValue(elm, value));
+            });
+        }
+
+        return updated as T;
+    }
+
+    // noinspection JSMethodCanBeStatic
+    private getArray(value: unknown): unknown[] {
+        return Array.isArray(value) ? value : [];
     }
 }
 
@@ -171,109 +744,1163 @@ interface Entity<K = number> {
 
 export class Database<T extends Entity<K>, K = number> {
 
+    protected readonly indexes: Map<keyof T, FieldIndex<T>> = new Map<keyof T, FieldIndex<T>>();
+    protected readonly textSearch: TextSearch;
+    protected readonly writeTarget: string | StorageAdapter;
+    protected readonly lock: FileLock | null;
+    protected readonly journal: Journal | null;
+    protected readonly quarantine: Map<number, MalformedRecordError> = new Map<number, MalformedRecordError>();
+    protected readonly indexConflicts: Map<keyof T, DuplicateKeyError<T>[]> = new Map<keyof T, DuplicateKeyError<T>[]>();
+    protected readonly watchers: Set<Watcher<T, K>> = new Set<Watcher<T, K>>();
+    protected readonly fileWatcher: FileWatcher;
+    protected readonly changeLog: ChangeLog;
+    protected readonly storage: StorageAdapter;
+    protected recovery: Promise<RecoveryResult> | null = null;
+    protected lineCount: number = 0;
+    protected indexedVersion: string | null = null;
+
     constructor(protected readonly filename: string,
-                protected readonly fullTextSearchFieldNames: (keyof T)[]) {
+                protected readonly fullTextSearchFieldNames: (keyof T)[],
+                protected readonly options: DatabaseOptions<T, K> = {}) {
+        this.storage = options.storage || new LineFileAdapter(filename);
+
+        // lock, journal, persisted indexes and watching need files next to the data, other storages go without them
+        const storageFilename: string | undefined = this.storage.filename;
+
+        this.writeTarget = storageFilename || this.storage;
+        this.lock = options.lock === false || !storageFilename ? null : new FileLock(storageFilename, options.lock);
+        this.journal = options.journal && !!storageFilename ? new Journal(storageFilename) : null;
+        this.textSearch = new TextSearch(fullTextSearchFieldNames, options.textSearch);
+        this.changeLog = new ChangeLog(storageFilename && `${storageFilename}.changes`, options.changeLog === true);
+        this.fileWatcher = new FileWatcher(storageFilename && `${storageFilename}.changes`, () => this.detectChanges());
     }
 
-    async find(query: Query<T>): Promise<T[]>;
-    async find(query: Query<T>, options: Pick<FindOptions<T>, 'sort'>): Promise<T[]>;
-    async find(query: Query<T>, options: Pick<FindOptions<T>, 'projection'>): Promise<Partial<T>[]>;
-    async find(query: Query<T>, options: FindOptions<T>): Promise<Partial<T>[]>;
-    async find(query: Query<T>, options?: FindOptions<T>): Promise<Partial<T>[]> {
-        return new Promise<Partial<T>[]>(async (resolve, reject) => {
-            try {
-                let lines: T[] = await this.readAll();
+    async open(): Promise<RecoveryResult> {
+        if (!this.recovery) {
+            this.recovery = !!this.journal
+                ? this.runExclusive(() => this.applyCheckpoint())
+                : Promise.resolve({ replayed: 0, discarded: 0 });
+        }
 
-                lines = [ ...new Filter(lines, query, this.fullTextSearchFieldNames).get() ];
+        return this.recovery;
+    }
 
-                if (options) {
-                    if (!!options.sort) {
-                        lines = [ ...new Sorter(lines, options.sort).get() ];
-                    }
+    getIndexConflicts(): DuplicateKeyError<T>[] {
+        return Array.from(this.indexConflicts.values()).reduce(
+            (prev: DuplicateKeyError<T>[], conflicts: DuplicateKeyError<T>[]) => [ ...prev, ...conflicts ],
+            []
+        );
+    }
 
-                    if (!!options.projection) {
-                        return resolve([ ...new Projector(lines, options.projection).get() ]);
-                    }
-                }
+    getQuarantinedLines(): MalformedRecordError[] {
+        return Array.from(this.quarantine.values()).sort(
+            (a: MalformedRecordError, b: MalformedRecordError) => a.lineNumber - b.lineNumber
+        );
+    }
 
-                return resolve(lines);
-            } catch (err) {
-                return reject(err);
-            }
-        });
+    async checkpoint(): Promise<RecoveryResult> {
+        return this.exclusive(() => this.applyCheckpoint());
     }
 
-    async readAll(): Promise<T[]> {
-        return new Promise<T[]>((resolve, reject) => {
-            try {
-                let lines: T[] = [];
+    protected async applyCheckpoint(): Promise<RecoveryResult> {
+        if (!this.journal) {
+            return { replayed: 0, discarded: 0 };
+        }
 
-                const readInterface = readline.createInterface({
-                    input: fs.createReadStream(this.filename)
-                });
+        const { entries, discarded }: { entries: JournalEntry[], discarded: number } = await this.journal.read();
+        const lines: string[] = entries.length > 0 ? await this.storage.readLines() : [];
+        const replay: JournalReplay = Journal.replay(lines, entries);
 
-                readInterface.on('line', (line: string) => {
-                    try {
-                        if (this.isDeleted(line)) {
-                            return;
-                        }
+        // readers already see the folded lines, so folding them into the data file emits no changes
+        if (replay.lines.join('\n') !== lines.join('\n')) {
+            await this.storage.rewrite(replay.lines);
+        }
 
-                        const dbRecord: T = this.parseLine(line);
+        await this.journal.truncate();
 
-                        lines.push(dbRecord);
-                    } catch (err) {
-                        return reject(err);
-                    }
-                });
+        if (entries.length > 0) {
+            this.indexes.forEach((index: FieldIndex<T>) => this.fillIndex(index, replay.lines));
+            this.lineCount = replay.lines.length;
+            this.indexedVersion = await this.getVersion();
 
-                readInterface.on('close', () => resolve(lines));
-            } catch (err) {
-                return reject(err);
-            }
-        });
+            await this.persistIndexes();
+        }
+
+        return { replayed: replay.replayed, discarded: discarded + replay.discarded };
     }
 
-    async delete(query: Query<T>): Promise<void> {
-        return new Promise<void>(async (resolve, reject) => {
-            try {
-                const all: T[] = await this.readAll();
-                const recordsToDelete: T[] = await this.find(query);
-                const recordsToDeleteMap: Map<K, T> = recordsToDelete.reduce(
-                    (prev: Map<K, T>, cur: T): Map<K, T> => {
-                        prev.set(cur._id, cur);
-                        return prev;
-                    },
-                    new Map<K, T>([])
-                )
-                const lines: string[] = all.map((record: T) => 
-                    recordsToDeleteMap.has(record._id)
-                        ? this.writeDeletedRecord(record)
-                        : this.writeExistingRecord(record)
-                );
+    async createIndex(field: keyof T, options: IndexOptions = {}): Promise<void> {
+        return this.exclusive(() => this.applyCreateIndex(field, options));
+    }
+
+    dropIndex(field: keyof T): void {
+        this.indexes.delete(field);
+        this.indexConflicts.delete(field);
+    }
 
-                fs.writeFile(this.filename, lines.join('\n'), (err: any) => {
-                    if (err) {
-                        return reject(err);
-                    }
+    protected async applyCreateIndex(field: keyof T, options: IndexOptions): Promise<void> {
+        const index: FieldIndex<T> = new FieldIndex<T>(field, options);
+        const lines: string[] = await this.readLines();
 
-                    return resolve();
-                })
+        if (!options.persist || !(await this.loadIndex(index))) {
+            this.fillIndex(index, lines, true);
+        }
+
+        this.indexes.set(field, index);
+
+        await this.persistIndexes();
+    }
+
+    // a duplicate written by another instance is kept as a conflict rather than failing every read of the storage,
+    // only building an index on request or from a transaction's own lines rejects it
+    protected fillIndex(index: FieldIndex<T>, lines: string[], strict: boolean = false): void {
+        const conflicts: DuplicateKeyError<T>[] = [];
+
+        index.clear();
+
+        lines.forEach((line: string, position: number) => {
+            const record: T | undefined = this.readRecord(line, position);
+
+            if (!record) {
+                return;
+            }
+
+            try {
+                index.assertUnique(record);
             } catch (err) {
-                return reject(err);
+                if (strict || !(err instanceof DuplicateKeyError)) {
+                    throw err;
+                }
+
+                conflicts.push(err);
             }
+
+            index.add(record, position);
         });
+
+        this.indexConflicts.set(index.field, conflicts);
     }
 
-    async insert(record: T): Promise<void> {
-        return new Promise<void>((resolve, reject) => {
-            fs.appendFile(this.filename, `${this.writeExistingRecord(record)}\n`, (err: any) => {
-                if (err) {
-                    return reject(err);
+    async compact(): Promise<CompactionResult> {
+        return this.exclusive(async () => this.compactLines(await this.readLines()));
+    }
+
+    protected async compactLines(lines: string[]): Promise<CompactionResult> {
+        const liveLines: string[] = lines.filter((line: string) => !this.isDeleted(line));
+
+        if (liveLines.length < lines.length) {
+            // journal positions point into the uncompacted lines, so they are folded in before the lines move
+            await this.applyCheckpoint();
+            await this.writeLines(liveLines);
+            await this.changeLog.trim(this.getWatchedPosition());
+
+            this.indexes.forEach((index: FieldIndex<T>) => this.fillIndex(index, liveLines));
+
+            await this.persistIndexes();
+        }
+
+        return { scannedLines: lines.length, removedLines: lines.length - liveLines.length };
+    }
+
+    protected shouldCompact(lines: string[]): boolean {
+        const policy: CompactionPolicy | undefined = this.options.autoCompact;
+
+        if (!policy || lines.length === 0 || lines.length < (policy.minLines || 0)) {
+            return false;
+        }
+
+        const deletedLines: number = lines.filter((line: string) => this.isDeleted(line)).length;
+
+        return deletedLines / lines.length >= policy.deletedRatio;
+    }
+
+    async find(query: Query<T>): Promise<T[]>;
+    async find(query: Query<T>, options: Omit<FindOptions<T>, 'projection'>): Promise<T[]>;
+    async find<P extends Projection<T>>(query: Query<T>, options: FindOptions<T, P>): Promise<Projected<T, P>[]>;
+    async find(query: Query<T>, options: FindOptions<T> = {}): Promise<object[]> {
+        return new Promise<object[]>(async (resolve, reject) => {
+            try {
+                const { records, plan }: ProfiledFind<T> = await this.profileFind(query, options);
+                const slowQuery: SlowQueryOptions<T> | undefined = this.options.slowQuery;
+
+                if (!!slowQuery && plan.durationMs >= slowQuery.thresholdMs) {
+                    slowQuery.log({ query, options, plan });
                 }
-                
-                return resolve();
+
+                return resolve(records);
+            } catch (err) {
+                return reject(err);
+            }
+        });
+    }
+
+    async explain(query: Query<T>, options: FindOptions<T> = {}): Promise<QueryPlan> {
+        return (await this.profileFind(query, options)).plan;
+    }
+
+    protected async profileFind(query: Query<T>, options: FindOptions<T>): Promise<ProfiledFind<T>> {
+        await this.open();
+
+        const profiler: QueryProfiler = new QueryProfiler();
+        const indexedFields: string[] = [];
+        const lines: string[] = await profiler.measureAsync('read', 0, () => this.readLines());
+        const positions: number[] | undefined = this.planQuery(query, indexedFields, options.collation);
+        const candidates: [ string, number ][] = this.selectCandidates(lines, positions);
+        const tombstonesSkipped: number = candidates.filter(([ line ]: [ string, number ]) => this.isDeleted(line)).length;
+        const records: T[] = profiler.measure('decode', candidates.length, () => this.decodeCandidates(candidates));
+        const result: (T | DeepPartial<T>)[] = this.runPipeline(records, query, options, profiler);
+
+        return {
+            records: result,
+            plan: {
+                scan: !!positions ? 'index' : 'full',
+                indexedFields: !!positions ? indexedFields : [],
+                stages: profiler.stages,
+                scannedCount: records.length,
+                returnedCount: result.length,
+                tombstonesSkipped,
+                durationMs: profiler.getDuration()
+            }
+        };
+    }
+
+    async aggregate<S extends ReadonlyArray<unknown>>(stages: [ ...Pipeline<T, S> ]): Promise<PipelineOutput<T, S>[]>;
+    async aggregate(stages: ReadonlyArray<AggregationStage<PlainRecord>>): Promise<object[]> {
+        const records: PlainRecord[] = (await this.readAll()) as object[] as PlainRecord[];
+
+        return stages.reduce(
+            (prev: PlainRecord[], stage: AggregationStage<PlainRecord>) => this.runStage(prev, stage),
+            records
+        );
+    }
+
+    async count(query: Query<T>): Promise<number> {
+        await this.open();
+
+        return new Filter(await this.readCandidates(query), query, this.textSearch).get().length;
+    }
+
+    createPageToken(record: DeepPartial<T>, sort?: Sort<T>): string {
+        const values: unknown[] = Object.keys(this.getPageSort(sort)).map((path: string) => {
+            const value: unknown = getPathValue(record, path);
+
+            if (value === undefined) {
+                throw new DatabaseError(`Cannot create a page token without the "${path}" sort field`);
+            }
+
+            return value;
+        });
+
+        return Buffer.from(stringifyTagged(values)).toString('base64');
+    }
+
+    findCursor(query: Query<T>): Cursor<T>;
+    findCursor(query: Query<T>, options: Omit<FindOptions<T>, 'projection'>): Cursor<T>;
+    findCursor<P extends Projection<T>>(query: Query<T>, options: FindOptions<T, P>): Cursor<Projected<T, P>>;
+    findCursor(query: Query<T>, options: FindOptions<T> = {}): Cursor<object> {
+        return new Cursor<T | DeepPartial<T>>(this.streamMatches(query, options));
+    }
+
+    async watch(query: Query<T> = {}, options: WatchOptions = {}): Promise<ChangeStream<ChangeEvent<T, K>>> {
+        await this.open();
+        await this.changeLog.enable();
+        // hands the changes so far to the current watchers, so the log position is the end of the log
+        await this.fileWatcher.trigger();
+
+        const position: number = options.resumeAfter === undefined ? this.changeLog.getPosition() : options.resumeAfter + 1;
+
+        if (!(await this.changeLog.covers(position))) {
+            throw new DatabaseError(`Cannot resume after position ${options.resumeAfter}, the change log has been trimmed past it`);
+        }
+
+        const watcher: Watcher<T, K> = {
+            query,
+            stream: new ChangeStream<ChangeEvent<T, K>>(() => this.unwatch(watcher)),
+            position
+        };
+
+        this.watchers.add(watcher);
+        this.fileWatcher.start();
+
+        if (options.resumeAfter !== undefined) {
+            await this.fileWatcher.trigger();
+        }
+
+        return watcher.stream;
+    }
+
+    protected unwatch(watcher: Watcher<T, K>): void {
+        this.watchers.delete(watcher);
+
+        if (this.watchers.size === 0) {
+            this.fileWatcher.stop();
+        }
+    }
+
+    protected async detectChanges(): Promise<void> {
+        const entries: ChangeLogEntry[] = await this.changeLog.read(this.getWatchedPosition());
+
+        this.watchers.forEach((watcher: Watcher<T, K>) => {
+            this.readChangeEvents(entries, watcher.position)
+                .filter((event: ChangeEvent<T, K>) => new QueryChecker(event.doc, watcher.query, this.textSearch).isOk())
+                .forEach((event: ChangeEvent<T, K>) => watcher.stream.push(event));
+            watcher.position = this.changeLog.getPosition();
+        });
+    }
+
+    // the oldest position a live watcher still needs, entries before it can be dropped
+    protected getWatchedPosition(): number {
+        return Array.from(this.watchers).reduce(
+            (prev: number, watcher: Watcher<T, K>) => Math.min(prev, watcher.position),
+            this.watchers.size > 0 ? this.changeLog.getPosition() : Infinity
+        );
+    }
+
+    protected readChangeEvents(entries: ChangeLogEntry[], from: number): ChangeEvent<T, K>[] {
+        return entries.reduce((events: ChangeEvent<T, K>[], entry: ChangeLogEntry) => {
+            if (entry.position < from) {
+                return events;
+            }
+
+            try {
+                const doc: T = this.parseLine(entry.line, entry.position);
+
+                return [ ...events, { op: entry.op, doc, _id: doc._id, position: entry.position } ];
+            } catch (err) {
+                return events;
+            }
+        }, []);
+    }
+
+    protected async logChanges(lines: string[], updatedLines: string[]): Promise<void> {
+        if (!(await this.changeLog.isEnabled())) {
+            return;
+        }
+
+        const changes: Pick<ChangeLogEntry, 'op' | 'line'>[] = updatedLines.reduce(
+            (prev: Pick<ChangeLogEntry, 'op' | 'line'>[], line: string, position: number) => {
+                const previous: string | undefined = lines[position];
+                const wasLive: boolean = previous !== undefined && !this.isDeleted(previous);
+                const op: ChangeOperation = this.isDeleted(line) ? 'delete' : wasLive ? 'update' : 'insert';
+
+                return previous === line || (op === 'delete' && !wasLive) ? prev : [ ...prev, { op, line } ];
+            },
+            []
+        );
+
+        await this.changeLog.append(changes);
+    }
+
+    async transaction<R>(callback: (tx: Transaction<T, K>) => Promise<R>): Promise<R> {
+        return this.exclusive(async () => {
+            const lines: string[] = await this.readLines();
+            let txLines: string[] = lines;
+            let completed: boolean = false;
+
+            const assertActive = (): void => {
+                if (completed) {
+                    throw new DatabaseError('Transaction has already been completed');
+                }
+            };
+            const tx: Transaction<T, K> = {
+                find: (async (query: Query<T>, options?: FindOptions<T>): Promise<(T | DeepPartial<T>)[]> => {
+                    assertActive();
+
+                    return this.runPipeline(this.parseLiveLines(txLines), query, options);
+                }) as Transaction<T, K>['find'],
+                insert: async (record: InsertRecord<T>): Promise<T> => {
+                    assertActive();
+
+                    const stored: T = this.prepareInsert(this.readIds(txLines), record);
+
+                    txLines = [ ...txLines, this.writeExistingRecord(stored) ];
+
+                    return stored;
+                },
+                delete: async (query: Query<T>): Promise<void> => {
+                    assertActive();
+
+                    txLines = this.deleteLines(txLines, query).updatedLines;
+                },
+                update: async (query: Query<T>, modifier: UpdateModifier<T>, options?: UpdateOptions): Promise<UpdateResult<K>> => {
+                    assertActive();
+
+                    return updateView(query, modifier, true, options);
+                },
+                updateOne: async (query: Query<T>, modifier: UpdateModifier<T>, options?: UpdateOptions): Promise<UpdateResult<K>> => {
+                    assertActive();
+
+                    return updateView(query, modifier, false, options);
+                }
+            };
+            const updateView = (query: Query<T>,
+                                modifier: UpdateModifier<T>,
+                                multi: boolean,
+                                options: UpdateOptions = {}): UpdateResult<K> => {
+                const { updatedLines, matchedCount, changes }: LineUpdate<T> = this.updateLines(txLines, query, modifier, multi);
+
+                if (matchedCount === 0 && options.upsert) {
+                    const record: T = this.upsertRecord(this.readIds(txLines), query, modifier);
+
+                    txLines = [ ...txLines, this.writeExistingRecord(record) ];
+
+                    return { matchedCount, modifiedCount: 0, upsertedId: record._id };
+                }
+
+                txLines = updatedLines;
+
+                return { matchedCount, modifiedCount: changes.length };
+            };
+
+            try {
+                const result: R = await callback(tx);
+
+                await this.commitTransaction(lines, txLines);
+
+                return result;
+            } finally {
+                completed = true;
+            }
+        });
+    }
+
+    async readAll(): Promise<T[]> {
+        await this.open();
+
+        return this.parseLiveLines(await this.readLines());
+    }
+
+    async delete(query: Query<T>): Promise<void> {
+        return this.exclusive(() => this.applyDelete(query));
+    }
+
+    async update(query: Query<T>, modifier: UpdateModifier<T>, options?: UpdateOptions): Promise<UpdateResult<K>> {
+        return this.exclusive(() => this.applyUpdate(query, modifier, true, options));
+    }
+
+    async updateOne(query: Query<T>, modifier: UpdateModifier<T>, options?: UpdateOptions): Promise<UpdateResult<K>> {
+        return this.exclusive(() => this.applyUpdate(query, modifier, false, options));
+    }
+
+    async insert(record: InsertRecord<T>): Promise<T> {
+        return this.exclusive(async () => {
+            const stored: T = this.prepareInsert(this.readIds(await this.readLines()), record);
+
+            await this.applyInsert(stored);
+
+            return stored;
+        });
+    }
+
+    async insertMany(records: ReadonlyArray<InsertRecord<T>>, options: BulkWriteOptions = {}): Promise<BulkWriteResult<T, K>> {
+        return this.bulkWrite(records.map((record: InsertRecord<T>): BulkOperation<T> => ({ insertOne: record })), options);
+    }
+
+    async bulkWrite(operations: ReadonlyArray<BulkOperation<T>>, options: BulkWriteOptions = {}): Promise<BulkWriteResult<T, K>> {
+        return this.exclusive(() => this.applyBulkWrite(operations, options.ordered !== false));
+    }
+
+    protected async exclusive<R>(operation: () => Promise<R>): Promise<R> {
+        await this.open();
+
+        const result: R = await this.runExclusive(operation);
+
+        if (this.watchers.size > 0) {
+            await this.fileWatcher.trigger();
+        }
+
+        return result;
+    }
+
+    protected async runExclusive<R>(operation: () => Promise<R>): Promise<R> {
+        const lock: FileLock | null = this.lock;
+
+        // looked up per write, as the queue of a file is dropped once it has drained
+        return WriteQueue.for(this.writeTarget).run(() => !!lock ? lock.withLock(operation) : operation());
+    }
+
+    protected async applyDelete(query: Query<T>): Promise<void> {
+        const lines: string[] = await this.readLines();
+        const { updatedLines, deleted }: LineDeletion<T> = this.deleteLines(lines, query);
+
+        await this.commitLines(lines, updatedLines);
+
+        deleted.forEach(([ record, position ]: [ T, number ]) =>
+            this.indexes.forEach((index: FieldIndex<T>) => index.remove(record, position))
+        );
+
+        await this.persistIndexes();
+
+        if (this.shouldCompact(updatedLines)) {
+            await this.compactLines(updatedLines);
+        }
+    }
+
+    protected async applyUpdate(query: Query<T>,
+                                modifier: UpdateModifier<T>,
+                                multi: boolean,
+                                options: UpdateOptions = {}): Promise<UpdateResult<K>> {
+        const lines: string[] = await this.readLines();
+        const { updatedLines, matchedCount, changes }: LineUpdate<T> = this.updateLines(lines, query, modifier, multi);
+
+        if (matchedCount === 0 && options.upsert) {
+            const record: T = this.upsertRecord(this.readIds(lines), query, modifier);
+
+            await this.applyInsert(record);
+
+            return { matchedCount, modifiedCount: 0, upsertedId: record._id };
+        }
+
+        if (changes.length > 0) {
+            // reindexed on copies, so a rejected or failed write leaves the live indexes as they were
+            const indexes: FieldIndex<T>[] = Array.from(this.indexes.values()).map((index: FieldIndex<T>) => index.clone());
+
+            this.reindex(changes, indexes);
+
+            await this.commitLines(lines, updatedLines);
+
+            indexes.forEach((index: FieldIndex<T>) => this.indexes.set(index.field, index));
+
+            await this.persistIndexes();
+        }
+
+        return { matchedCount, modifiedCount: changes.length };
+    }
+
+    protected async applyBulkWrite(operations: ReadonlyArray<BulkOperation<T>>, ordered: boolean): Promise<BulkWriteResult<T, K>> {
+        const lines: string[] = await this.readLines();
+        const state: BulkState<T, K> = {
+            lines: lines.slice(),
+            ids: this.readIds(lines),
+            indexes: Array.from(this.indexes.values()).map((index: FieldIndex<T>) => index.clone())
+        };
+        let failed: boolean = false;
+
+        const results: BulkOperationResult<T, K>[] = operations.map((operation: BulkOperation<T>): BulkOperationResult<T, K> => {
+            if (failed && ordered) {
+                return { status: 'skipped' };
+            }
+
+            try {
+                return this.applyBulkOperation(state, operation);
+            } catch (err) {
+                failed = true;
+
+                return { status: 'failed', error: err as Error };
+            }
+        });
+        const rewritten: boolean = lines.some((line: string, position: number) => state.lines[position] !== line);
+
+        if (rewritten) {
+            await this.commitLines(lines, state.lines);
+        } else if (state.lines.length > lines.length) {
+            await this.commitAppend(state.lines.slice(lines.length));
+
+            this.lineCount = state.lines.length;
+        }
+
+        state.indexes.forEach((index: FieldIndex<T>) => this.indexes.set(index.field, index));
+
+        await this.persistIndexes();
+
+        if (rewritten && this.shouldCompact(state.lines)) {
+            await this.compactLines(state.lines);
+        }
+
+        return this.summarizeBulkWrite(results);
+    }
+
+    protected applyBulkOperation(state: BulkState<T, K>, operation: BulkOperation<T>): BulkOperationResult<T, K> {
+        if ('insertOne' in operation) {
+            return { status: 'applied', inserted: this.insertIntoBatch(state, this.prepareInsert(state.ids, operation.insertOne)) };
+        }
+
+        if ('deleteMany' in operation) {
+            const { updatedLines, deleted }: LineDeletion<T> = this.deleteLines(state.lines, operation.deleteMany);
+
+            deleted.forEach(([ record, position ]: [ T, number ]) => {
+                state.indexes.forEach((index: FieldIndex<T>) => index.remove(record, position));
+                state.ids.live.delete(record._id);
             });
+            state.lines = updatedLines;
+
+            return { status: 'applied', deletedCount: deleted.length };
+        }
+
+        const multi: boolean = 'updateMany' in operation;
+        const { filter, update, upsert }: BulkUpdate<T> = 'updateMany' in operation ? operation.updateMany : operation.updateOne;
+        const { updatedLines, matchedCount, changes }: LineUpdate<T> = this.updateLines(state.lines, filter, update, multi);
+
+        if (matchedCount === 0 && upsert) {
+            const record: T = this.insertIntoBatch(state, this.upsertRecord(state.ids, filter, update));
+
+            return { status: 'applied', matchedCount, modifiedCount: 0, upsertedId: record._id };
+        }
+
+        this.reindex(changes, state.indexes);
+        state.lines = updatedLines;
+
+        return { status: 'applied', matchedCount, modifiedCount: changes.length };
+    }
+
+    protected insertIntoBatch(state: BulkState<T, K>, record: T): T {
+        state.indexes.forEach((index: FieldIndex<T>) => index.assertUnique(record));
+        state.indexes.forEach((index: FieldIndex<T>) => index.add(record, state.lines.length));
+        state.lines.push(this.writeExistingRecord(record));
+        state.ids.all.push(record._id);
+        state.ids.live.add(record._id);
+
+        return record;
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected summarizeBulkWrite(results: BulkOperationResult<T, K>[]): BulkWriteResult<T, K> {
+        return results.reduce(
+            (summary: BulkWriteResult<T, K>, result: BulkOperationResult<T, K>): BulkWriteResult<T, K> => ({
+                ...summary,
+                insertedCount: summary.insertedCount + (result.inserted !== undefined ? 1 : 0),
+                deletedCount: summary.deletedCount + (result.deletedCount || 0),
+                matchedCount: summary.matchedCount + (result.matchedCount || 0),
+                modifiedCount: summary.modifiedCount + (result.modifiedCount || 0),
+                upsertedCount: summary.upsertedCount + (result.upsertedId !== undefined ? 1 : 0),
+                failedCount: summary.failedCount + (result.status === 'failed' ? 1 : 0)
+            }),
+            {
+                insertedCount: 0,
+                deletedCount: 0,
+                matchedCount: 0,
+                modifiedCount: 0,
+                upsertedCount: 0,
+                failedCount: 0,
+                results
+            }
+        );
+    }
+
+    protected async commitTransaction(lines: string[], txLines: string[]): Promise<void> {
+        if (txLines === lines) {
+            return;
+        }
+
+        const rebuiltIndexes: FieldIndex<T>[] = Array.from(this.indexes.values()).map((index: FieldIndex<T>) => {
+            const rebuiltIndex: FieldIndex<T> = new FieldIndex<T>(index.field, index.options);
+
+            this.fillIndex(rebuiltIndex, txLines, true);
+
+            return rebuiltIndex;
+        });
+
+        await this.commitLines(lines, txLines);
+
+        rebuiltIndexes.forEach((index: FieldIndex<T>) => this.indexes.set(index.field, index));
+
+        await this.persistIndexes();
+
+        if (this.shouldCompact(txLines)) {
+            await this.compactLines(txLines);
+        }
+    }
+
+    protected deleteLines(lines: string[], query: Query<T>): LineDeletion<T> {
+        const deleted: [ T, number ][] = [];
+        const updatedLines: string[] = lines.map((line: string, position: number) => {
+            const record: T | undefined = this.readRecord(line, position);
+
+            if (!record || !new QueryChecker(record, query, this.textSearch).isOk()) {
+                return line;
+            }
+
+            deleted.push([ record, position ]);
+
+            return this.writeDeletedRecord(record);
+        });
+
+        return { updatedLines, deleted };
+    }
+
+    protected updateLines(lines: string[], query: Query<T>, modifier: UpdateModifier<T>, multi: boolean): LineUpdate<T> {
+        const changes: [ T, T, number ][] = [];
+        let matchedCount: number = 0;
+
+        const updatedLines: string[] = lines.map((line: string, position: number) => {
+            if (!multi && matchedCount > 0) {
+                return line;
+            }
+
+            const record: T | undefined = this.readRecord(line, position);
+
+            if (!record || !new QueryChecker(record, query, this.textSearch).isOk()) {
+                return line;
+            }
+
+            matchedCount++;
+
+            const updated: T = this.validate(new Updater(record, modifier).get());
+            const updatedLine: string = this.writeExistingRecord(updated);
+
+            if (updatedLine !== line) {
+                changes.push([ record, updated, position ]);
+            }
+
+            return updatedLine;
+        });
+
+        return { updatedLines, matchedCount, changes };
+    }
+
+    protected upsertRecord(ids: KnownIds<K>, query: Query<T>, modifier: UpdateModifier<T>): T {
+        return this.prepareInsert(ids, new Updater(this.seedFromQuery(query) as T, modifier).get());
+    }
+
+    protected prepareInsert(ids: KnownIds<K>, record: InsertRecord<T>): T {
+        const stored: T = this.validate(
+            (record._id === undefined ? { ...record, _id: this.generateId(ids.all) } : record) as T
+        );
+
+        if (ids.live.has(stored._id)) {
+            throw new DuplicateKeyError<T>('_id', stored._id);
+        }
+
+        return stored;
+    }
+
+    protected readIds(lines: string[]): KnownIds<K> {
+        const ids: KnownIds<K> = { all: [], live: new Set<K>() };
+
+        lines.forEach((line: string) => {
+            const id: K | undefined = this.readId(line);
+
+            if (id === undefined) {
+                return;
+            }
+
+            ids.all.push(id);
+
+            if (!this.isDeleted(line)) {
+                ids.live.add(id);
+            }
         });
+
+        return ids;
+    }
+
+    protected generateId(existingIds: K[]): K {
+        if (!this.options.idStrategy) {
+            throw new DatabaseError('Cannot insert a record without _id');
+        }
+
+        return getIdGenerator(this.options.idStrategy)(existingIds);
+    }
+
+    protected async applyInsert(record: T): Promise<void> {
+        this.indexes.forEach((index: FieldIndex<T>) => index.assertUnique(record));
+
+        await this.commitAppend([ this.writeExistingRecord(record) ]);
+
+        const position: number = this.lineCount++;
+
+        this.indexes.forEach((index: FieldIndex<T>) => index.add(record, position));
+
+        await this.persistIndexes();
+    }
+
+    protected runPipeline(records: T[],
+                          query: Query<T>,
+                          options: FindOptions<T> = {},
+                          profiler: QueryProfiler = new QueryProfiler()): (T | DeepPartial<T>)[] {
+        let lines: T[] = profiler.measure('filter', records.length, () => [ ...new Filter(records, query, this.textSearch, options.collation).get() ]);
+
+        if (options.after !== undefined) {
+            lines = profiler.measure('sort', lines.length, () => {
+                const sorter: Sorter<T> = new Sorter(
+                    lines,
+                    this.getPageSort(options.sort),
+                    this.getTextScores(lines, query, options.sort),
+                    options.collation
+                );
+                const after: T = this.parsePageToken(options.after as string, sorter.sort) as T;
+
+                return [ ...sorter.get() ].filter((line: T) => sorter.compare(line, after) > 0);
+            });
+        } else if (!!options.sort) {
+            const sort: Sort<T> = options.sort;
+
+            lines = profiler.measure('sort', lines.length, () =>
+                new Sorter(lines, sort, this.getTextScores(lines, query, sort), options.collation).get()
+            );
+        }
+
+        if (options.skip !== undefined || options.limit !== undefined) {
+            const skip: number = options.skip || 0;
+
+            lines = profiler.measure('paginate', lines.length, () =>
+                lines.slice(skip, options.limit === undefined ? undefined : skip + options.limit)
+            );
+        }
+
+        if (!!options.projection) {
+            const projection: Projection<T> = options.projection;
+
+            return profiler.measure('project', lines.length, () => [ ...new Projector(lines, projection).get() ]);
+        }
+
+        return lines;
+    }
+
+    protected getTextScores(records: T[], query: Query<T>, sort: Sort<T> = {}): Map<T, number> {
+        const scores: Map<T, number> = new Map<T, number>();
+        const text: string | undefined = this.findTextQuery(query);
+
+        if (text !== undefined && !!sort.score) {
+            records.forEach((record: T) => scores.set(record, this.textSearch.score(record, text)));
+        }
+
+        return scores;
+    }
+
+    protected findTextQuery(query: Query<T>): string | undefined {
+        if ('$text' in query) {
+            return query.$text;
+        }
+
+        if ('$and' in query) {
+            return query.$and
+                .map((subQuery: Query<T>) => this.findTextQuery(subQuery))
+                .find((text: string | undefined) => text !== undefined);
+        }
+
+        return undefined;
+    }
+
+    protected async *streamMatches(query: Query<T>, options: FindOptions<T>): AsyncIterableIterator<T | DeepPartial<T>> {
+        const skip: number = options.skip || 0;
+        const limit: number = options.limit === undefined ? Infinity : options.limit;
+
+        await this.open();
+
+        if (limit <= 0) {
+            return;
+        }
+
+        if (!!options.sort || options.after !== undefined) {
+            yield* this.runPipeline(await this.readCandidates(query, options.collation), query, options);
+
+            return;
+        }
+
+        let skipped: number = 0;
+        let emitted: number = 0;
+        let position: number = 0;
+
+        for await (const line of this.streamLines()) {
+            const record: T | undefined = this.readRecord(line, position++);
+
+            if (!record || !new QueryChecker(record, query, this.textSearch, options.collation).isOk()) {
+                continue;
+            }
+
+            if (skipped < skip) {
+                skipped++;
+                continue;
+            }
+
+            yield !!options.projection ? new Projector([ record ], options.projection).get()[0] : record;
+
+            if (++emitted >= limit) {
+                return;
+            }
+        }
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected getPageSort(sort: Sort<T> = {}): Sort<T> {
+        return '_id' in sort ? sort : { ...sort, _id: 1 };
+    }
+
+    protected parsePageToken(token: string, sort: Sort<T>): DeepPartial<T> {
+        const paths: string[] = Object.keys(sort);
+        let values: unknown;
+
+        try {
+            values = parseTagged(Buffer.from(token, 'base64').toString());
+        } catch (err) {
+            values = null;
+        }
+
+        if (!Array.isArray(values) || values.length !== paths.length) {
+            throw new DatabaseError(`Invalid page token "${token}"`);
+        }
+
+        return paths.reduce(
+            (prev: DeepPartial<T>, path: string, i: number): DeepPartial<T> => setPathValue(prev, path, (values as unknown[])[i]),
+            {}
+        );
+    }
+
+    protected async *streamLines(): AsyncIterableIterator<string> {
+        if (!!this.storage.streamLines && !this.journal) {
+            yield* this.storage.streamLines();
+
+            return;
+        }
+
+        const lines: string[] = await this.readJournaledLines();
+
+        for (let i = 0; i < lines.length; i++) {
+            yield lines[i];
+        }
+    }
+
+    protected runStage(records: PlainRecord[], stage: AggregationStage<PlainRecord>): PlainRecord[] {
+        if ('$match' in stage) {
+            return new Filter(records, stage.$match, this.textSearch).get();
+        }
+
+        if ('$group' in stage) {
+            return new Grouper(records, stage.$group).get();
+        }
+
+        if ('$sort' in stage) {
+            return new Sorter([ ...records ], stage.$sort).get();
+        }
+
+        if ('$project' in stage) {
+            return new Projector(records, stage.$project).get() as PlainRecord[];
+        }
+
+        if ('$limit' in stage) {
+            return records.slice(0, stage.$limit);
+        }
+
+        if ('$skip' in stage) {
+            return records.slice(stage.$skip);
+        }
+
+        return new Unwinder(records, stage.$unwind).get();
+    }
+
+    protected parseLiveLines(lines: string[]): T[] {
+        return lines
+            .map((line: string, position: number) => this.readRecord(line, position))
+            .filter((record: T | undefined): record is T => record !== undefined);
+    }
+
+    protected async readCandidates(query: Query<T>, collation?: Collation): Promise<T[]> {
+        const lines: string[] = await this.readLines();
+
+        return this.decodeCandidates(this.selectCandidates(lines, this.planQuery(query, [], collation)));
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected selectCandidates(lines: string[], positions: number[] | undefined): [ string, number ][] {
+        if (!positions) {
+            return lines.map((line: string, position: number): [ string, number ] => [ line, position ]);
+        }
+
+        return Array.from(new Set(positions))
+            .sort((a: number, b: number) => a - b)
+            .filter((position: number) => lines[position] !== undefined)
+            .map((position: number): [ string, number ] => [ lines[position], position ]);
+    }
+
+    protected decodeCandidates(candidates: [ string, number ][]): T[] {
+        return candidates
+            .map(([ line, position ]: [ string, number ]) => this.readRecord(line, position))
+            .filter((record: T | undefined): record is T => record !== undefined);
+    }
+
+    protected planQuery(query: Query<T>, indexedFields: string[] = [], collation: Collation = {}): number[] | undefined {
+        const intersect = (a: number[], b: number[]): number[] => a.filter((position: number) => b.includes(position));
+        const isPlanned = (plan: number[] | undefined): plan is number[] => plan !== undefined;
+
+        if ('$and' in query) {
+            const plans: number[][] = query.$and.map((subQuery: Query<T>) => this.planQuery(subQuery, indexedFields, collation)).filter(isPlanned);
+
+            return plans.length > 0 ? plans.reduce(intersect) : undefined;
+        }
+
+        if ('$or' in query) {
+            const plans: (number[] | undefined)[] = query.$or.map((subQuery: Query<T>) => this.planQuery(subQuery, indexedFields, collation));
+
+            return plans.every(isPlanned)
+                ? (plans as number[][]).reduce((prev: number[], cur: number[]) => [ ...prev, ...cur ], [])
+                : undefined;
+        }
+
+        if ('$nor' in query || '$text' in query) {
+            return undefined;
+        }
+
+        const plans: number[][] = (Object.entries(query) as [ keyof T, QueryCriterion<T, keyof T> ][])
+            .map(([ key, criterion ]: [ keyof T, QueryCriterion<T, keyof T> ]) => {
+                const index: FieldIndex<T> | undefined = this.indexes.get(key);
+                const plan: number[] | undefined = !!index ? index.lookup(criterion, collation) : undefined;
+
+                if (!!plan && !indexedFields.includes(String(key))) {
+                    indexedFields.push(String(key));
+                }
+
+                return plan;
+            })
+            .filter(isPlanned);
+
+        return plans.length > 0 ? plans.reduce(intersect) : undefined;
+    }
+
+    protected reindex(changes: [ T, T, number ][], indexes: FieldIndex<T>[] = Array.from(this.indexes.values())): void {
+        const applied: [ T, T, number ][] = [];
+
+        changes.forEach(([ record, , position ]: [ T, T, number ]) =>
+            indexes.forEach((index: FieldIndex<T>) => index.remove(record, position))
+        );
+
+        try {
+            changes.forEach((change: [ T, T, number ]) => {
+                const [ , updated, position ] = change;
+
+                indexes.forEach((index: FieldIndex<T>) => index.assertUnique(updated, position));
+                indexes.forEach((index: FieldIndex<T>) => index.add(updated, position));
+                applied.push(change);
+            });
+        } catch (err) {
+            applied.forEach(([ , updated, position ]: [ T, T, number ]) =>
+                indexes.forEach((index: FieldIndex<T>) => index.remove(updated, position))
+            );
+            changes.forEach(([ record, , position ]: [ T, T, number ]) =>
+                indexes.forEach((index: FieldIndex<T>) => index.add(record, position))
+            );
+
+            throw err;
+        }
+    }
+
+    protected async loadIndex(index: FieldIndex<T>): Promise<boolean> {
+        if (!this.storage.filename) {
+            return false;
+        }
+
+        try {
+            const persisted: PersistedIndex = parseTagged(await readFile(this.getIndexFilename(index))) as PersistedIndex;
+
+            if (persisted.version !== await this.getVersion()) {
+                return false;
+            }
+
+            index.load(persisted);
+
+            return true;
+        } catch (err) {
+            return false;
+        }
+    }
+
+    protected async persistIndexes(): Promise<void> {
+        const indexes: FieldIndex<T>[] = Array.from(this.indexes.values())
+            .filter((index: FieldIndex<T>) => !!index.options.persist);
+
+        if (indexes.length === 0 || !this.storage.filename) {
+            return;
+        }
+
+        const version: string = await this.getVersion();
+
+        await Promise.all(indexes.map((index: FieldIndex<T>) =>
+            replaceFile(this.getIndexFilename(index), stringifyTagged(index.toJSON(version)))
+        ));
+    }
+
+    protected getIndexFilename(index: FieldIndex<T>): string {
+        return `${this.storage.filename}.${String(index.field)}.idx`;
+    }
+
+    protected async readLines(): Promise<string[]> {
+        const version: string = await this.getVersion();
+        const lines: string[] = await this.readJournaledLines();
+
+        this.lineCount = lines.length;
+
+        // another instance has written to or compacted the storage since the indexes were last in sync
+        if (version !== this.indexedVersion) {
+            this.indexes.forEach((index: FieldIndex<T>) => this.fillIndex(index, lines));
+            this.indexedVersion = version;
+        }
+
+        return lines;
+    }
+
+    // mutations stay in the journal until a checkpoint folds them into the data file
+    protected async readJournaledLines(): Promise<string[]> {
+        const lines: string[] = await this.storage.readLines();
+
+        if (!this.journal) {
+            return lines;
+        }
+
+        return Journal.replay(lines, (await this.journal.read()).entries).lines;
+    }
+
+    protected async getVersion(): Promise<string> {
+        const version: string = await this.storage.getVersion();
+
+        return !!this.journal ? `${version}:${await this.journal.getVersion()}` : version;
+    }
+
+    protected async commitLines(lines: string[], updatedLines: string[]): Promise<void> {
+        if (!!this.journal) {
+            await this.journal.append(
+                updatedLines
+                    .map((line: string, position: number): LinePut => [ position, line, position < lines.length ? lines[position] : null ])
+                    .filter(([ position, line ]: LinePut) => lines[position] !== line)
+            );
+
+            this.lineCount = updatedLines.length;
+            this.indexedVersion = await this.getVersion();
+        } else {
+            await this.writeLines(updatedLines);
+        }
+
+        await this.logChanges(lines, updatedLines);
+    }
+
+    protected async commitAppend(lines: string[]): Promise<void> {
+        if (!!this.journal) {
+            const position: number = (await this.readLines()).length;
+
+            await this.journal.append(lines.map((line: string, offset: number): LinePut => [ position + offset, line, null ]));
+        } else {
+            await this.storage.append(lines);
+        }
+
+        await this.logChanges([], lines);
+
+        this.indexedVersion = await this.getVersion();
+    }
+
+    protected async writeLines(lines: string[]): Promise<void> {
+        await this.storage.rewrite(lines);
+
+        this.lineCount = lines.length;
+        this.indexedVersion = await this.getVersion();
+        this.quarantine.clear();
+    }
+
+    private seedFromQuery(query: Query<T>): DeepPartial<T> {
+        if ('$and' in query) {
+            return query.$and.reduce(
+                (prev: DeepPartial<T>, subQuery: Query<T>): DeepPartial<T> => ({ ...prev, ...this.seedFromQuery(subQuery) }),
+                {}
+            );
+        }
+
+        if ('$or' in query || '$nor' in query || '$text' in query) {
+            return {};
+        }
+
+        return (Object.entries(query) as [ string, CriterionOperators ][]).reduce(
+            (prev: DeepPartial<T>, [ path, criterion ]: [ string, CriterionOperators ]): DeepPartial<T> =>
+                '$eq' in criterion ? setPathValue(prev, path, criterion.$eq) : prev,
+            {}
+        );
     }
 
     // noinspection JSMethodCanBeStatic
@@ -281,13 +1908,49 @@ export class Database<T extends Entity<K>, K = number> {
         return line.startsWith('D');
     }
 
+    private readRecord(line: string, position: number): T | undefined {
+        if (this.isDeleted(line)) {
+            return undefined;
+        }
+
+        try {
+            return this.parseLine(line, position);
+        } catch (err) {
+            if (err instanceof MalformedRecordError && this.options.malformedLines === 'quarantine') {
+                this.quarantine.set(err.lineNumber, err);
+
+                return undefined;
+            }
+
+            throw err;
+        }
+    }
+
     // noinspection JSMethodCanBeStatic
-    private parseLine(line: string): T {
-        return JSON.parse(line.substring(1));
+    private readId(line: string): K | undefined {
+        try {
+            return JSON.parse(line.substring(1))._id;
+        } catch (err) {
+            return undefined;
+        }
+    }
+
+    private parseLine(line: string, position: number): T {
+        try {
+            const raw: unknown = JSON.parse(line.substring(1));
+
+            return !!this.options.schema ? this.options.schema.decode(raw) : raw as T;
+        } catch (err) {
+            throw new MalformedRecordError(position + 1, line, (err as Error).message);
+        }
+    }
+
+    private validate(record: T): T {
+        return !!this.options.schema ? this.options.schema.decode(this.options.schema.encode(record)) : record;
     }
 
     private writeRecord(record: T): string {
-        return JSON.stringify(record);
+        return JSON.stringify(!!this.options.schema ? this.options.schema.encode(record) : record);
     }
 
     private writeExistingRecord(record: T): string {
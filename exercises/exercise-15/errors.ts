@@ -0,0 +1,31 @@
+export class DatabaseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = new.target.name;
+        Object.setPrototypeOf(this, new.target.prototype);
+    }
+}
+
+export class DuplicateKeyError<T> extends DatabaseError {
+    constructor(readonly field: keyof T, readonly value: unknown) {
+        super(`Duplicate value ${JSON.stringify(value)} for unique field "${String(field)}"`);
+    }
+}
+
+export class LockTimeoutError extends DatabaseError {
+    constructor(readonly lockFilename: string, readonly timeout: number) {
+        super(`Could not acquire lock "${lockFilename}" within ${timeout}ms`);
+    }
+}
+
+export class ValidationError extends DatabaseError {
+    constructor(readonly reason: string, readonly field?: string) {
+        super(field === undefined ? `Invalid record: ${reason}` : `Invalid field "${field}": ${reason}`);
+    }
+}
+
+export class MalformedRecordError extends DatabaseError {
+    constructor(readonly lineNumber: number, readonly line: string, readonly reason: string) {
+        super(`Malformed record at line ${lineNumber}: ${reason}`);
+    }
+}
@@ -0,0 +1,54 @@
+export type QueryStageName = 'read' | 'decode' | 'filter' | 'sort' | 'paginate' | 'project';
+
+export interface QueryStagePlan {
+    stage: QueryStageName;
+    inputCount: number;
+    outputCount: number;
+    durationMs: number;
+}
+
+export interface QueryPlan {
+    scan: 'index' | 'full';
+    indexedFields: string[];
+    stages: QueryStagePlan[];
+    scannedCount: number;
+    returnedCount: number;
+    tombstonesSkipped: number;
+    durationMs: number;
+}
+
+export class QueryProfiler {
+
+    readonly stages: QueryStagePlan[] = [];
+
+    protected readonly startedAt: [ number, number ] = process.hrtime();
+
+    measure<R>(stage: QueryStageName, inputCount: number, run: () => R[]): R[] {
+        const startedAt: [ number, number ] = process.hrtime();
+        const result: R[] = run();
+
+        this.stages.push({ stage, inputCount, outputCount: result.length, durationMs: this.elapsed(startedAt) });
+
+        return result;
+    }
+
+    async measureAsync<R>(stage: QueryStageName, inputCount: number, run: () => Promise<R[]>): Promise<R[]> {
+        const startedAt: [ number, number ] = process.hrtime();
+        const result: R[] = await run();
+
+        this.stages.push({ stage, inputCount, outputCount: result.length, durationMs: this.elapsed(startedAt) });
+
+        return result;
+    }
+
+    getDuration(): number {
+        return this.elapsed(this.startedAt);
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected elapsed(startedAt: [ number, number ]): number {
+        const [ seconds, nanoseconds ]: [ number, number ] = process.hrtime(startedAt);
+
+        return seconds * 1e3 + nanoseconds / 1e6;
+    }
+}
@@ -0,0 +1,208 @@
+import {Collation, getValueComparator, parseIsoDate} from './collation';
+
+type Primitive = string | number | bigint | boolean | symbol | null | undefined;
+
+type Leaf = Primitive | Date | RegExp;
+
+type PreviousDepth = [ never, 0, 1, 2, 3, 4 ];
+
+export type ElementOf<V> = V extends ReadonlyArray<infer E> ? E : V;
+
+type Nested<V> = NonNullable<ElementOf<NonNullable<V>>>;
+
+export type Path<T, D extends number = 4> = [ D ] extends [ never ]
+    ? never
+    : T extends Leaf
+        ? never
+        : {
+            [K in keyof T & string]: Nested<T[K]> extends Leaf
+                ? K
+                : K | `${K}.${Path<Nested<T[K]>, PreviousDepth[D]>}`;
+        }[keyof T & string];
+
+export type PathValue<T, P extends string> = P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T ? PathValue<Nested<T[K]>, Rest> : never
+    : P extends keyof T ? T[P] : never;
+
+type DeepPartialValue<V> = V extends Leaf
+    ? V
+    : V extends ReadonlyArray<infer E>
+        ? DeepPartialValue<E>[]
+        : DeepPartial<V>;
+
+export type DeepPartial<T> = {
+    [K in keyof T]?: DeepPartialValue<T[K]>;
+};
+
+type PathHead<P extends string> = P extends `${infer K}.${string}` ? K : P;
+
+type PathTail<P extends string, K extends string> = P extends `${K}.${infer Rest}` ? Rest : never;
+
+type PickNested<V, P extends string> = V extends Leaf
+    ? V
+    : V extends ReadonlyArray<infer E>
+        ? PickNested<E, P>[]
+        : PickPaths<V, P>;
+
+export type PickPaths<T, P extends string> = {
+    [K in keyof T as K extends PathHead<P> ? K : never]: K extends P
+        ? T[K]
+        : PickNested<T[K], PathTail<P, K & string>>;
+};
+
+type OmitNested<V, P extends string> = V extends Leaf
+    ? V
+    : V extends ReadonlyArray<infer E>
+        ? OmitNested<E, P>[]
+        : OmitPaths<V, P>;
+
+export type OmitPaths<T, P extends string> = {
+    [K in keyof T as K extends P ? never : K]: K extends PathHead<P>
+        ? OmitNested<T[K], PathTail<P, K & string>>
+        : T[K];
+};
+
+type PlainObject = {
+    [key: string]: unknown;
+};
+
+const isPlainObject = (value: unknown): value is PlainObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+export function getPathValue(record: unknown, path: string): unknown {
+    return path.split('.').reduce((value: unknown, segment: string): unknown => {
+        if (Array.isArray(value) && !/^\d+$/.test(segment)) {
+            return value.reduce((prev: unknown[], elm: unknown): unknown[] => {
+                const nested: unknown = isPlainObject(elm) ? elm[segment] : undefined;
+
+                return nested === undefined ? prev : prev.concat(nested);
+            }, []);
+        }
+
+        return isPlainObject(value) || Array.isArray(value)
+            ? (value as PlainObject)[segment]
+            : undefined;
+    }, record);
+}
+
+export function pickPaths(record: PlainObject, paths: string[]): PlainObject {
+    const heads: string[] = paths
+        .map((path: string) => path.split('.')[0])
+        .filter((head: string, i: number, arr: string[]) => arr.indexOf(head) === i);
+
+    return heads.reduce((prev: PlainObject, head: string): PlainObject => {
+        const value: unknown = record[head];
+        const tails: string[] = paths
+            .filter((path: string) => path.startsWith(`${head}.`))
+            .map((path: string) => path.substring(head.length + 1));
+
+        if (value === undefined) {
+            return prev;
+        }
+
+        if (paths.includes(head)) {
+            return { ...prev, [head]: value };
+        }
+
+        if (Array.isArray(value)) {
+            return { ...prev, [head]: value.filter(isPlainObject).map((elm: PlainObject) => pickPaths(elm, tails)) };
+        }
+
+        return isPlainObject(value) ? { ...prev, [head]: pickPaths(value, tails) } : prev;
+    }, {});
+}
+
+export function setPathValue<R extends object>(record: R, path: string, value: unknown): R {
+    const [ head, ...rest ]: string[] = path.split('.');
+    const current: unknown = (record as PlainObject)[head];
+
+    return {
+        ...record,
+        [head]: rest.length === 0
+            ? value
+            : setPathValue(isPlainObject(current) ? current : {}, rest.join('.'), value)
+    };
+}
+
+export function unsetPathValue<R extends object>(record: R, path: string): R {
+    const [ head, ...rest ]: string[] = path.split('.');
+    const current: unknown = (record as PlainObject)[head];
+
+    if (rest.length === 0) {
+        const { [head]: omitted, ...result } = record as PlainObject;
+
+        return result as R;
+    }
+
+    if (Array.isArray(current)) {
+        return {
+            ...record,
+            [head]: current.map((elm: unknown) => isPlainObject(elm) ? unsetPathValue(elm, rest.join('.')) : elm)
+        };
+    }
+
+    return isPlainObject(current)
+        ? { ...record, [head]: unsetPathValue(current, rest.join('.')) }
+        : record;
+}
+
+export function isEqualValue(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false;
+    }
+
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// dates and bigints are tagged, so decoded values survive JSON in page tokens and persisted indexes
+export function stringifyTagged(value: unknown): string {
+    return JSON.stringify(value, function (this: PlainObject, key: string, json: unknown): unknown {
+        const raw: unknown = this[key];
+
+        if (raw instanceof Date) {
+            return { $date: raw.toISOString() };
+        }
+
+        return typeof raw === 'bigint' ? { $bigint: raw.toString() } : json;
+    });
+}
+
+export function parseTagged(json: string): unknown {
+    return JSON.parse(json, (key: string, value: unknown): unknown => {
+        if (!isPlainObject(value)) {
+            return value;
+        }
+
+        if (typeof value.$date === 'string' && Object.keys(value).length === 1) {
+            return new Date(value.$date);
+        }
+
+        return typeof value.$bigint === 'string' && Object.keys(value).length === 1 ? BigInt(value.$bigint) : value;
+    });
+}
+
+export function compareValues(a: unknown, b: unknown, collation: Collation = {}): number | undefined {
+    const x: unknown = toComparable(a, collation);
+    const y: unknown = toComparable(b, collation);
+
+    if (typeof x !== typeof y || [ 'number', 'string', 'bigint', 'boolean' ].indexOf(typeof x) === -1) {
+        return undefined;
+    }
+
+    // strings follow the collation's locale, numeric and case options, as they do in sorts
+    return getValueComparator(collation).compare(x, y);
+}
+
+function toComparable(value: unknown, collation: Collation): unknown {
+    if (value instanceof Date) {
+        return value.getTime();
+    }
+
+    const time: number | undefined = typeof value === 'string' && !!collation.dates ? parseIsoDate(value) : undefined;
+
+    return time === undefined ? value : time;
+}
@@ -0,0 +1,54 @@
+const crypto = require('crypto');
+
+export type IdGenerator<K> = (existingIds: ReadonlyArray<K>) => K;
+
+export type IdStrategy<K> = (K extends number ? 'autoIncrement' : never)
+    | (K extends string ? 'uuid' | 'objectId' : never)
+    | IdGenerator<K>;
+
+export const autoIncrement: IdGenerator<number> = (existingIds: ReadonlyArray<number>): number =>
+    existingIds.reduce((max: number, id: number) => Math.max(max, id), -1) + 1;
+
+export const uuid: IdGenerator<string> = (): string => {
+    const bytes: Buffer = crypto.randomBytes(16);
+
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+    const hex: string = bytes.toString('hex');
+
+    return [ hex.substr(0, 8), hex.substr(8, 4), hex.substr(12, 4), hex.substr(16, 4), hex.substr(20) ].join('-');
+};
+
+const processUnique: Buffer = crypto.randomBytes(5);
+let objectIdCounter: number = crypto.randomBytes(3).readUIntBE(0, 3);
+
+export const objectId: IdGenerator<string> = (): string => {
+    const bytes: Buffer = Buffer.alloc(12);
+
+    objectIdCounter = (objectIdCounter + 1) % 0x1000000;
+
+    bytes.writeUInt32BE(Math.floor(Date.now() / 1000), 0);
+    processUnique.copy(bytes, 4);
+    bytes.writeUIntBE(objectIdCounter, 9, 3);
+
+    return bytes.toString('hex');
+};
+
+const namedGenerators: { autoIncrement: IdGenerator<number>; uuid: IdGenerator<string>; objectId: IdGenerator<string> } = {
+    autoIncrement,
+    uuid,
+    objectId
+};
+
+export function getIdGenerator<K>(strategy: IdStrategy<K>): IdGenerator<K> {
+    if (typeof strategy === 'function') {
+        return strategy;
+    }
+
+    const generator: IdGenerator<number> | IdGenerator<string> = strategy === 'autoIncrement'
+        ? namedGenerators.autoIncrement
+        : namedGenerators[strategy];
+
+    return generator as IdGenerator<unknown> as IdGenerator<K>;
+}
@@ -1,4 +1,15 @@
-import {Database} from './database';
+import {
+    Database,
+    DatabaseError,
+    DuplicateKeyError,
+    JsonDocumentAdapter,
+    MalformedRecordError,
+    MemoryAdapter,
+    Schema,
+    SlowQuery,
+    ValidationError
+} from './database';
+import {FileLock} from './locking';
 import * as path from 'path';
 import {promises as fs} from 'mz/fs';
 import {expect} from 'chai';
@@ -45,10 +56,54 @@ interface User {
     occupation: string;
 }
 
-async function testUsersDatabase() {
+interface Task {
+    _id: number;
+    title: string;
+    due?: string | null;
+    priority?: number | null;
+}
+
+interface Traveller extends User {
+    address?: {
+        city: string;
+        country: string;
+    };
+    tags?: string[];
+    visits?: {
+        city: string;
+        year: number;
+    }[];
+}
+
+interface RegisteredUser extends User {
+    registered?: Date;
+    active: boolean;
+    karma?: bigint;
+}
+
+const registeredUserSchema = new Schema<RegisteredUser>({
+    _id: {type: 'number'},
+    name: {type: 'string'},
+    age: {type: 'number'},
+    occupation: {type: 'string'},
+    registered: {type: 'date', optional: true},
+    active: {type: 'boolean', default: true},
+    karma: {type: 'bigint', optional: true}
+});
+
+interface Note {
+    _id: string;
+    text: string;
+}
+
+async function createUsersDatabase(): Promise<Database<User>> {
     await fs.copyFile(path.join(__dirname, 'initial-users.txt'), path.join(__dirname, 'users.txt'));
 
-    const usersDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation']);
+    return new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation']);
+}
+
+async function testUsersDatabase() {
+    const usersDatabase = await createUsersDatabase();
 
     await usersDatabase.insert({
         _id: 9,
@@ -59,7 +114,7 @@ async function testUsersDatabase() {
 
     expect(
         await usersDatabase.find({_id: {$eq: 9}}, {projection: {name: 1}})
-    ).to.eql([{name: 'Amelie Roach'}]);
+    ).to.eql([{_id: 9, name: 'Amelie Roach'}]);
 
     await Promise.all([
         usersDatabase.find({_id: {$eq: 2}}).then(([user]) => expect(user.occupation).to.equal('Astronaut')),
@@ -99,7 +154,1113 @@ async function testUsersDatabase() {
     ).to.eql([5, 4, 3, 2]);
 }
 
-testUsersDatabase().then(
+async function testUsersUpdates() {
+    const usersDatabase = await createUsersDatabase();
+
+    // $set operator replaces field values, syntax {$set: {fieldName: value}}
+    // see more https://docs.mongodb.com/manual/reference/operator/update/set/
+    expect(
+        await usersDatabase.update({occupation: {$eq: 'Magical entity'}}, {$set: {occupation: 'Wizard'}})
+    ).to.eql({matchedCount: 2, modifiedCount: 2});
+    expect(
+        (await usersDatabase.find({occupation: {$eq: 'Wizard'}}, {sort: {_id: 1}})).map(({_id}) => _id)
+    ).to.eql([6, 8]);
+
+    // $inc operator increments numeric fields, syntax {$inc: {fieldName: amount}}
+    // see more https://docs.mongodb.com/manual/reference/operator/update/inc/
+    expect(
+        await usersDatabase.updateOne({name: {$eq: 'Kate Müller'}}, {$inc: {age: 2}})
+    ).to.eql({matchedCount: 1, modifiedCount: 1});
+    expect(
+        await usersDatabase.find({_id: {$eq: 2}}, {projection: {age: 1}})
+    ).to.eql([{_id: 2, age: 25}]);
+
+    expect(
+        await usersDatabase.update({_id: {$eq: 1}}, {$set: {name: 'Deleted records are never updated'}})
+    ).to.eql({matchedCount: 0, modifiedCount: 0});
+
+    expect(
+        await usersDatabase.update({_id: {$eq: 13}}, {$set: {name: 'Jackie Chan', occupation: 'Actor', age: 66}}, {upsert: true})
+    ).to.eql({matchedCount: 0, modifiedCount: 0, upsertedId: 13});
+    expect(
+        await usersDatabase.find({occupation: {$eq: 'Actor'}}, {projection: {_id: 1, name: 1}})
+    ).to.eql([{_id: 13, name: 'Jackie Chan'}]);
+
+    const travellersDatabase = new Database<Traveller>(path.join(__dirname, 'users.txt'), ['name', 'occupation']);
+
+    // $push operator appends a value to an array field, syntax {$push: {fieldName: value}}
+    // see more https://docs.mongodb.com/manual/reference/operator/update/push/
+    await travellersDatabase.updateOne({_id: {$eq: 3}}, {$push: {tags: 'prophet'}});
+    await travellersDatabase.updateOne({_id: {$eq: 3}}, {$push: {visits: {city: 'Cairo', year: 1300}}});
+    await travellersDatabase.updateOne({_id: {$eq: 3}}, {$push: {visits: {city: 'Jericho', year: 1250}}});
+    expect(
+        await travellersDatabase.find({_id: {$eq: 3}}, {projection: {tags: 1, visits: 1}})
+    ).to.eql([{_id: 3, tags: ['prophet'], visits: [{city: 'Cairo', year: 1300}, {city: 'Jericho', year: 1250}]}]);
+
+    // $pull operator removes all array elements equal to a value, syntax {$pull: {fieldName: value}}
+    // see more https://docs.mongodb.com/manual/reference/operator/update/pull/
+    expect(
+        await travellersDatabase.updateOne({_id: {$eq: 3}}, {$pull: {visits: {city: 'Cairo', year: 1300}}})
+    ).to.eql({matchedCount: 1, modifiedCount: 1});
+    expect(
+        await travellersDatabase.find({_id: {$eq: 3}}, {projection: {visits: 1}})
+    ).to.eql([{_id: 3, visits: [{city: 'Jericho', year: 1250}]}]);
+
+    // $push and $pull only take array fields, optional ones included, and values of their element type
+    const invalidArrayModifiers = (): Promise<unknown>[] => [
+        // @ts-expect-error name is not an array field
+        travellersDatabase.updateOne({}, {$push: {name: 123}}),
+        // @ts-expect-error tags holds strings
+        travellersDatabase.updateOne({}, {$push: {tags: 1}}),
+        // @ts-expect-error whatever is not a field at all
+        travellersDatabase.updateOne({}, {$pull: {whatever: 1}})
+    ];
+
+    expect(invalidArrayModifiers).to.be.a('function');
+
+    // $unset operator removes optional fields, syntax {$unset: {fieldName: 1}}
+    // see more https://docs.mongodb.com/manual/reference/operator/update/unset/
+    await travellersDatabase.updateOne({_id: {$eq: 3}}, {$unset: {tags: 1}});
+    expect(
+        await travellersDatabase.find({_id: {$eq: 3}})
+    ).to.eql([{_id: 3, name: 'Moses', age: 70, occupation: 'Desert guide', visits: [{city: 'Jericho', year: 1250}]}]);
+}
+
+async function testUsersIndexes() {
+    const usersDatabase = await createUsersDatabase();
+
+    await usersDatabase.createIndex('_id', {unique: true});
+    await usersDatabase.createIndex('age', {persist: true});
+
+    expect(
+        (await usersDatabase.find({_id: {$in: [2, 3, 42]}})).map(({name}) => name)
+    ).to.eql(['Kate Müller', 'Moses']);
+    expect(
+        (await usersDatabase.find({$and: [{age: {$gt: 30}}, {occupation: {$eq: 'Magical entity'}}]})).map(({_id}) => _id)
+    ).to.eql([6, 8]);
+
+    await usersDatabase.insert({
+        _id: 9,
+        name: 'Amelie Roach',
+        occupation: 'PR',
+        age: 23
+    });
+
+    let error: unknown;
+
+    try {
+        await usersDatabase.insert({
+            _id: 9,
+            name: 'Luc Hook',
+            occupation: 'Homeless',
+            age: 44
+        });
+    } catch (e) {
+        error = e;
+    }
+
+    expect(error).to.be.instanceOf(DuplicateKeyError);
+    expect((await usersDatabase.find({age: {$eq: 23}})).map(({_id}) => _id)).to.eql([2, 9]);
+
+    await usersDatabase.delete({_id: {$eq: 2}});
+
+    expect((await usersDatabase.find({age: {$eq: 23}})).map(({_id}) => _id)).to.eql([9]);
+
+    // Indexes are rebuilt when another instance writes to or compacts the file
+    const otherDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation']);
+
+    await otherDatabase.insert({_id: 10, name: 'Luc Hook', occupation: 'Homeless', age: 23});
+
+    expect((await usersDatabase.find({age: {$eq: 23}})).map(({_id}) => _id)).to.eql([9, 10]);
+
+    await otherDatabase.compact();
+    await otherDatabase.updateOne({_id: {$eq: 9}}, {$set: {age: 24}});
+
+    expect((await usersDatabase.find({age: {$eq: 23}})).map(({_id}) => _id)).to.eql([10]);
+    expect((await usersDatabase.find({_id: {$in: [0, 9]}})).map(({age}) => age)).to.eql([25, 24]);
+
+    // A duplicate written by an instance without the unique index is reported instead of failing reads and writes
+    await usersDatabase.createIndex('name', {unique: true});
+    await otherDatabase.insert({_id: 12, name: 'Luc Hook', occupation: 'Homeless', age: 3});
+
+    expect(await usersDatabase.count({name: {$eq: 'Luc Hook'}})).to.equal(2);
+    expect(usersDatabase.getIndexConflicts().map(({field, value}) => [field, value])).to.eql([['name', 'Luc Hook']]);
+
+    await usersDatabase.insert({_id: 11, name: 'Arnold Schwarzenegger', occupation: 'Actor', age: 64});
+
+    expect(await usersDatabase.count({_id: {$eq: 11}})).to.equal(1);
+
+    // Indexes only change once an update has been written
+    const failingStorage = new FailingAdapter((await fs.readFile(path.join(__dirname, 'initial-users.txt'), 'utf8')).split('\n').filter(Boolean));
+    const failingDatabase = new Database<User>('failing', ['name', 'occupation'], {storage: failingStorage});
+
+    await failingDatabase.createIndex('age');
+
+    failingStorage.failNextRewrite = true;
+    error = undefined;
+
+    try {
+        await failingDatabase.updateOne({_id: {$eq: 2}}, {$set: {age: 77}});
+    } catch (e) {
+        error = e;
+    }
+
+    expect(error).to.have.property('message', 'Disk full');
+    expect((await failingDatabase.find({age: {$eq: 23}})).map(({_id}) => _id)).to.eql([2]);
+    expect(await failingDatabase.find({age: {$eq: 77}})).to.eql([]);
+}
+
+class FailingAdapter extends MemoryAdapter {
+    failNextRewrite: boolean = false;
+
+    async rewrite(lines: string[]): Promise<void> {
+        if (this.failNextRewrite) {
+            this.failNextRewrite = false;
+
+            throw new Error('Disk full');
+        }
+
+        return super.rewrite(lines);
+    }
+}
+
+class RacingLock extends FileLock {
+    takeOverFrom(owner: string): Promise<void> {
+        return this.takeOver(owner);
+    }
+}
+
+async function testConcurrentWrites() {
+    const usersDatabase = await createUsersDatabase();
+    const anotherUsersDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation']);
+
+    await Promise.all([
+        usersDatabase.delete({_id: {$lt: 5}}),
+        anotherUsersDatabase.insert({_id: 9, name: 'Amelie Roach', occupation: 'PR', age: 23}),
+        usersDatabase.update({_id: {$eq: 9}}, {$inc: {age: 1}}),
+        anotherUsersDatabase.delete({_id: {$eq: 6}}),
+        usersDatabase.insert({_id: 10, name: 'Luc Hook', occupation: 'Homeless', age: 44})
+    ]);
+
+    expect(
+        (await anotherUsersDatabase.find({}, {sort: {_id: 1}, projection: {_id: 1, age: 1}}))
+    ).to.eql([{_id: 5, age: 31}, {_id: 7, age: 20}, {_id: 8, age: 99}, {_id: 9, age: 24}, {_id: 10, age: 44}]);
+    expect(await fs.readdir(__dirname)).not.to.include('users.txt.lock');
+
+    // A live owner keeps its lock fresh, so a slow write is never taken over as stale
+    const lockOptions = {staleAfter: 30, retryInterval: 5, timeout: 1000};
+    const filename = path.join(__dirname, 'users.txt');
+    const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+    const holders: string[] = [];
+
+    await Promise.all([
+        new FileLock(filename, lockOptions).withLock(async () => {
+            holders.push('owner');
+            await sleep(150);
+            holders.push('owner');
+        }),
+        sleep(10).then(() => new FileLock(filename, lockOptions).withLock(async () => {
+            holders.push('contender');
+        }))
+    ]);
+
+    expect(holders).to.eql(['owner', 'owner', 'contender']);
+
+    // A lock left behind by a dead process is taken over
+    await fs.writeFile(path.join(__dirname, 'users.txt.lock'), '999999:abandoned');
+    await anotherUsersDatabase.insert({_id: 11, name: 'Arnold Schwarzenegger', occupation: 'Actor', age: 64});
+
+    expect(await anotherUsersDatabase.count({})).to.equal(6);
+    expect(await fs.readdir(__dirname)).not.to.include('users.txt.lock');
+
+    // A takeover re-reads the lock under a marker, so a lock taken since the staleness check survives it
+    const lockFilename = path.join(__dirname, 'users.txt.lock');
+    const freshLock = `${process.pid}:fresh`;
+
+    await fs.writeFile(lockFilename, freshLock);
+    await new RacingLock(filename, lockOptions).takeOverFrom('999999:abandoned');
+
+    expect(await fs.readFile(lockFilename, 'utf8')).to.equal(freshLock);
+    expect(await fs.readdir(__dirname)).not.to.include('users.txt.lock.takeover');
+
+    // A marker left behind by a dead contender expires like a lock does
+    const longAgo = new Date(Date.now() - 60000);
+
+    await fs.writeFile(path.join(__dirname, 'users.txt.lock.takeover'), '999999:abandoned');
+    await fs.utimes(path.join(__dirname, 'users.txt.lock.takeover'), longAgo, longAgo);
+    await fs.writeFile(lockFilename, '999999:abandoned');
+    await anotherUsersDatabase.delete({_id: {$eq: 11}});
+
+    expect(await anotherUsersDatabase.count({})).to.equal(5);
+    expect(await fs.readdir(__dirname)).not.to.include('users.txt.lock');
+    expect(await fs.readdir(__dirname)).not.to.include('users.txt.lock.takeover');
+
+    // The heartbeat leaves a lock alone once someone else has taken it over
+    const hungLock = new FileLock(filename, lockOptions);
+
+    await hungLock.acquire();
+    await fs.writeFile(lockFilename, freshLock);
+    await fs.utimes(lockFilename, longAgo, longAgo);
+    await sleep(50);
+
+    expect((await fs.stat(lockFilename)).mtimeMs).to.be.closeTo(longAgo.getTime(), 1);
+
+    await hungLock.release();
+
+    expect(await fs.readFile(lockFilename, 'utf8')).to.equal(freshLock);
+
+    await fs.unlink(lockFilename);
+}
+
+async function testCompaction() {
+    const usersDatabase = await createUsersDatabase();
+
+    await usersDatabase.createIndex('age');
+    await usersDatabase.delete({age: {$lt: 30}});
+
+    expect(await usersDatabase.compact()).to.eql({scannedLines: 9, removedLines: 5});
+    expect(await usersDatabase.compact()).to.eql({scannedLines: 4, removedLines: 0});
+    expect(
+        (await fs.readFile(path.join(__dirname, 'users.txt'), 'utf8')).split('\n').filter((line) => line.startsWith('D'))
+    ).to.eql([]);
+    expect((await usersDatabase.find({age: {$gt: 60}})).map(({_id}) => _id)).to.eql([3, 8]);
+
+    const autoCompactedDatabase = new Database<User>(
+        path.join(__dirname, 'users.txt'),
+        ['name', 'occupation'],
+        {autoCompact: {deletedRatio: 0.5}}
+    );
+
+    await autoCompactedDatabase.delete({_id: {$eq: 3}});
+
+    expect((await fs.readFile(path.join(__dirname, 'users.txt'), 'utf8')).split('\n')).to.have.lengthOf(5);
+
+    await autoCompactedDatabase.delete({_id: {$eq: 5}});
+
+    expect((await fs.readFile(path.join(__dirname, 'users.txt'), 'utf8')).split('\n')).to.have.lengthOf(3);
+}
+
+async function testJournalRecovery() {
+    const usersDatabase = await createUsersDatabase();
+    const journalFilename = path.join(__dirname, 'users.txt.wal');
+    const journaledDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation'], {journal: true});
+
+    expect(await journaledDatabase.open()).to.eql({replayed: 0, discarded: 0});
+
+    const dataBeforeWrites = await fs.readFile(path.join(__dirname, 'users.txt'), 'utf8');
+
+    await journaledDatabase.insert({_id: 9, name: 'Amelie Roach', occupation: 'PR', age: 23});
+    await journaledDatabase.delete({_id: {$eq: 0}});
+
+    // Mutations only go to the journal until a checkpoint folds them into the data file
+    expect(await fs.readFile(path.join(__dirname, 'users.txt'), 'utf8')).to.equal(dataBeforeWrites);
+    expect((await fs.readFile(journalFilename, 'utf8')).trim().split('\n')).to.have.lengthOf(2);
+    expect((await journaledDatabase.find({_id: {$in: [0, 9]}})).map(({_id}) => _id)).to.eql([9]);
+    expect(await journaledDatabase.checkpoint()).to.eql({replayed: 2, discarded: 0});
+    expect(await fs.readdir(__dirname)).not.to.include('users.txt.wal');
+    expect((await usersDatabase.find({_id: {$in: [0, 9]}})).map(({_id}) => _id)).to.eql([9]);
+
+    // Simulates a crash which tore the last appended data line and left its journal entry behind
+    await usersDatabase.insert({_id: 10, name: 'Luc Hook', occupation: 'Homeless', age: 44});
+    await fs.appendFile(path.join(__dirname, 'users.txt'), 'E{"_id":11,"name":"Arnold Schwa');
+    await fs.writeFile(journalFilename, [
+        JSON.stringify({seq: 1, puts: [[11, 'E{"_id":11,"name":"Arnold Schwarzenegger","age":64,"occupation":"Actor"}', null]]}),
+        JSON.stringify({seq: 2, puts: [[
+            4,
+            'D{"_id":4,"name":"Superman","age":28,"occupation":"Ordinary person"}',
+            'E{"_id":4,"name":"Superman","age":28,"occupation":"Ordinary person"}'
+        ]]}),
+        // Written against a line which has been rewritten without the journal since, so it is discarded
+        JSON.stringify({seq: 3, puts: [[
+            5,
+            'E{"_id":5,"name":"Inspector Gadget","age":33,"occupation":"Undercover"}',
+            'E{"_id":5,"name":"Inspector Gadget","age":32,"occupation":"Undercover"}'
+        ]]}),
+        '{"seq":4,"puts":[[12,"E{\\"_id\\":12'
+    ].join('\n'));
+
+    const recoveredDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation'], {journal: true});
+
+    expect(await recoveredDatabase.open()).to.eql({replayed: 2, discarded: 2});
+    expect(
+        (await recoveredDatabase.find({}, {sort: {_id: 1}, projection: {_id: 1}})).map(({_id}) => _id)
+    ).to.eql([2, 3, 5, 6, 7, 8, 9, 10, 11]);
+    expect((await recoveredDatabase.find({_id: {$eq: 5}})).map(({age}) => age)).to.eql([31]);
+    expect(await fs.readdir(__dirname)).not.to.include('users.txt.wal');
+}
+
+async function testTransactions() {
+    const usersDatabase = await createUsersDatabase();
+
+    const movedId = await usersDatabase.transaction(async (tx) => {
+        const [user] = await tx.find({name: {$eq: 'Superman'}});
+
+        await tx.delete({_id: {$eq: user._id}});
+        await tx.insert({...user, _id: 9, occupation: 'Journalist'});
+
+        expect((await tx.find({occupation: {$eq: 'Journalist'}})).map(({_id}) => _id)).to.eql([9]);
+        expect((await usersDatabase.find({occupation: {$eq: 'Journalist'}})).map(({_id}) => _id)).to.eql([]);
+
+        return 9;
+    });
+
+    expect(movedId).to.equal(9);
+    expect(
+        (await usersDatabase.find({name: {$eq: 'Superman'}}, {projection: {_id: 1, occupation: 1}}))
+    ).to.eql([{_id: 9, occupation: 'Journalist'}]);
+
+    let error: unknown;
+
+    try {
+        await usersDatabase.transaction(async (tx) => {
+            await tx.delete({});
+            await tx.update({_id: {$eq: 2}}, {$set: {age: 100}});
+
+            throw new Error('Changed my mind');
+        });
+    } catch (e) {
+        error = e;
+    }
+
+    expect(error).to.have.property('message', 'Changed my mind');
+    expect((await usersDatabase.find({})).map(({_id}) => _id)).to.have.same.members([0, 2, 3, 5, 6, 7, 8, 9]);
+
+    // Writing through the database instead of the transaction handle fails fast rather than deadlocking
+    error = undefined;
+
+    try {
+        await usersDatabase.transaction(async () => {
+            await usersDatabase.insert({_id: 10, name: 'Luc Hook', occupation: 'Homeless', age: 44});
+        });
+    } catch (e) {
+        error = e;
+    }
+
+    expect(error).to.be.instanceOf(DatabaseError);
+    expect(await usersDatabase.count({_id: {$eq: 10}})).to.equal(0);
+
+    await usersDatabase.insert({_id: 10, name: 'Luc Hook', occupation: 'Homeless', age: 44});
+
+    expect(await usersDatabase.count({_id: {$eq: 10}})).to.equal(1);
+
+    // Async work started during a transaction is free to write once the transaction has settled
+    let later: Promise<unknown> = Promise.resolve();
+
+    const committed: Promise<void> = usersDatabase.transaction(async () => {
+        later = new Promise((resolve) => setTimeout(resolve))
+            .then(() => committed)
+            .then(() => usersDatabase.insert({_id: 11, name: 'Arnold Schwarzenegger', occupation: 'Actor', age: 64}));
+    });
+
+    await committed;
+    await later;
+
+    expect(await usersDatabase.count({_id: {$eq: 11}})).to.equal(1);
+}
+
+async function testCursors() {
+    const usersDatabase = await createUsersDatabase();
+    const names: string[] = [];
+
+    for await (const user of usersDatabase.findCursor({age: {$lt: 30}})) {
+        names.push(user.name);
+
+        if (names.length === 2) {
+            break;
+        }
+    }
+
+    expect(names).to.eql(['Max Mustermann', 'Kate Müller']);
+    expect(
+        await usersDatabase.findCursor({}, {skip: 2, limit: 3, projection: {_id: 1}}).toArray()
+    ).to.eql([{_id: 3}, {_id: 4}, {_id: 5}]);
+    expect(
+        (await usersDatabase.findCursor({}, {sort: {age: -1}, limit: 2}).toArray()).map(({_id}) => _id)
+    ).to.eql([8, 3]);
+
+    const cursor = usersDatabase.findCursor({occupation: {$eq: 'Magical entity'}});
+
+    expect((await cursor.next()).value).to.have.property('_id', 6);
+
+    await cursor.close();
+
+    expect(await cursor.next()).to.eql({done: true, value: undefined});
+}
+
+async function testPagination() {
+    const usersDatabase = await createUsersDatabase();
+
+    expect(await usersDatabase.count({age: {$gt: 30}})).to.equal(4);
+    expect(
+        (await usersDatabase.find({}, {sort: {age: 1}, skip: 1, limit: 2})).map(({_id}) => _id)
+    ).to.eql([2, 0]);
+
+    await usersDatabase.insert({_id: 9, name: 'Amelie Roach', occupation: 'PR', age: 23});
+
+    const pages: number[][] = [];
+    let after: string | undefined;
+
+    do {
+        const page = await usersDatabase.find({}, {sort: {age: 1}, limit: 3, after, projection: {_id: 1, age: 1}});
+
+        pages.push(page.map(({_id}) => Number(_id)));
+        after = page.length > 0 ? usersDatabase.createPageToken(page[page.length - 1], {age: 1}) : undefined;
+    } while (after);
+
+    expect(pages).to.eql([[7, 2, 9], [0, 4, 5], [6, 3, 8], []]);
+}
+
+async function testAggregation() {
+    const usersDatabase = await createUsersDatabase();
+
+    // $group stage combines records with the same _id field value, syntax {$group: {_id: fieldName, field: accumulator}}
+    // see more https://docs.mongodb.com/manual/reference/operator/aggregation/group/
+    const occupations: {_id: string; count: number; averageAge: number}[] = await usersDatabase.aggregate([
+        {$match: {age: {$gt: 30}}},
+        {$group: {_id: 'occupation', count: {$count: {}}, averageAge: {$avg: 'age'}}},
+        {$sort: {count: -1, _id: 1}}
+    ]);
+
+    expect(occupations).to.eql([
+        {_id: 'Magical entity', count: 2, averageAge: 69},
+        {_id: 'Desert guide', count: 1, averageAge: 70},
+        {_id: 'Undercover', count: 1, averageAge: 31}
+    ]);
+
+    const youngest: {_id: number, name: string}[] = await usersDatabase.aggregate([
+        {$sort: {age: 1}},
+        {$skip: 1},
+        {$limit: 2},
+        {$project: {name: 1}}
+    ]);
+
+    expect(youngest).to.eql([{_id: 2, name: 'Kate Müller'}, {_id: 0, name: 'Max Mustermann'}]);
+    expect(
+        await usersDatabase.aggregate([{$group: {_id: null, total: {$sum: 1}, oldest: {$max: 'age'}}}])
+    ).to.eql([{_id: null, total: 8, oldest: 99}]);
+
+    const travellers: Traveller[] = [
+        {_id: 0, name: 'Marco Polo', age: 70, occupation: 'Merchant', tags: ['silk', 'spices']},
+        {_id: 1, name: 'Ibn Battuta', age: 64, occupation: 'Scholar', tags: ['spices', 'law']},
+        {_id: 2, name: 'Zheng He', age: 62, occupation: 'Admiral', tags: ['silk', 'fleet', 'spices']},
+        {_id: 3, name: 'Kate Müller', age: 23, occupation: 'Astronaut', tags: ['moon']}
+    ];
+    const travellersDatabase = new Database<Traveller>('travellers', ['name', 'occupation'], {
+        storage: new MemoryAdapter(travellers.map((traveller: Traveller) => `E${JSON.stringify(traveller)}`))
+    });
+
+    // Pipelines of any length pass each stage's output type on to the next stage
+    const tags: {_id: string; travellers: number}[] = await travellersDatabase.aggregate([
+        {$match: {age: {$gt: 60}}},
+        {$unwind: 'tags'},
+        {$group: {_id: 'tags', travellers: {$sum: 1}}},
+        {$sort: {travellers: -1, _id: 1}},
+        {$skip: 1},
+        {$limit: 2}
+    ]);
+
+    expect(tags).to.eql([{_id: 'silk', travellers: 2}, {_id: 'fleet', travellers: 1}]);
+
+    // Each stage is typed against the records the stage before it produces
+    const invalidPipelines = (): Promise<unknown>[] => [
+        // @ts-expect-error age has been projected away
+        usersDatabase.aggregate([{$project: {name: 1}}, {$sort: {age: 1}}]),
+        // @ts-expect-error age has been projected away
+        usersDatabase.aggregate([{$project: {name: 1}}, {$match: {age: {$gt: 30}}}]),
+        // @ts-expect-error groups only have the fields they accumulate
+        usersDatabase.aggregate([{$group: {_id: 'occupation', count: {$count: {}}}}, {$sort: {name: 1}}])
+    ];
+
+    expect(invalidPipelines).to.be.a('function');
+}
+
+async function testQueryOperators() {
+    const usersDatabase = await createUsersDatabase();
+    const findIds = async (query: Parameters<typeof usersDatabase.find>[0]) =>
+        (await usersDatabase.find(query, {sort: {_id: 1}})).map(({_id}) => _id);
+
+    // Several operators can be combined on one field, syntax {fieldName: {$gte: value1, $lte: value2}}
+    // see more https://docs.mongodb.com/manual/reference/operator/query-comparison/
+    expect(await findIds({age: {$gte: 25, $lte: 31}})).to.eql([0, 4, 5]);
+    expect(await findIds({age: {$gt: 20, $lt: 30}, occupation: {$ne: 'Astronaut'}})).to.eql([0, 4]);
+    expect(await findIds({occupation: {$nin: ['Magical entity', 'Astronaut']}, age: {$lt: 30}})).to.eql([0, 4, 7]);
+
+    // $regex operator matches string fields, syntax {fieldName: {$regex: /pattern/}}
+    // see more https://docs.mongodb.com/manual/reference/operator/query/regex/
+    expect(await findIds({name: {$regex: '^max', $options: 'i'}})).to.eql([0, 7, 8]);
+    expect(await findIds({name: {$not: {$regex: /a/}}})).to.eql([3, 6]);
+
+    expect(await findIds({occupation: {$exists: true}, age: {$exists: false}})).to.eql([]);
+
+    // $nor condition is satisfied when none of the nested conditions are satisfied: {$nor: [condition1, condition2, ...]}
+    // see more https://docs.mongodb.com/manual/reference/operator/query/nor/
+    expect(await findIds({$nor: [{age: {$lt: 30}}, {occupation: {$eq: 'Magical entity'}}]})).to.eql([3, 5]);
+}
+
+async function testFullTextSearch() {
+    await createUsersDatabase();
+
+    const usersDatabase = new Database<User>(
+        path.join(__dirname, 'users.txt'),
+        ['name', 'occupation'],
+        {textSearch: {stemming: true, stopWords: true}}
+    );
+    const findIds = async (text: string) =>
+        (await usersDatabase.find({$text: text}, {sort: {_id: 1}})).map(({_id}) => _id);
+
+    // $text operator performs a text search on the fullTextSearchFieldNames, syntax {$text: 'words to search'}
+    // see more https://docs.mongodb.com/manual/reference/operator/query/text/
+    expect(await findIds('Astronaut,')).to.eql([2]);
+    expect(await findIds('  kate   MULLER ')).to.eql([2]);
+    expect(await findIds('the magical entities')).to.eql([6, 8]);
+    expect(await findIds('max -pax')).to.eql([0]);
+    expect(await findIds('"max mustermann"')).to.eql([0]);
+    expect(await findIds('"mustermann max"')).to.eql([]);
+
+    await usersDatabase.insert({_id: 9, name: 'Max Max', occupation: 'Road warrior', age: 35});
+
+    expect(
+        (await usersDatabase.find({$text: 'max'}, {sort: {score: {$meta: 'textScore'}, _id: -1}})).map(({_id}) => _id)
+    ).to.eql([9, 7, 0]);
+}
+
+async function testNestedFields() {
+    await createUsersDatabase();
+
+    const travellersDatabase = new Database<Traveller>(path.join(__dirname, 'users.txt'), ['name', 'occupation']);
+    const findIds = async (query: Parameters<typeof travellersDatabase.find>[0]) =>
+        (await travellersDatabase.find(query, {sort: {_id: 1}})).map(({_id}) => _id);
+
+    await travellersDatabase.insert({
+        _id: 9, name: 'Phileas Fogg', age: 40, occupation: 'Gentleman',
+        address: {city: 'London', country: 'UK'}, tags: ['balloon', 'bet'],
+        visits: [{city: 'Bombay', year: 1872}, {city: 'Yokohama', year: 1872}]
+    });
+    await travellersDatabase.insert({
+        _id: 10, name: 'Passepartout', age: 30, occupation: 'Valet',
+        address: {city: 'Paris', country: 'France'}, tags: ['bet'],
+        visits: [{city: 'Bombay', year: 1872}]
+    });
+    await travellersDatabase.insert({
+        _id: 11, name: 'Marco Polo', age: 17, occupation: 'Merchant',
+        address: {city: 'Venice', country: 'Italy'}, tags: [],
+        visits: [{city: 'Khanbaliq', year: 1275}]
+    });
+
+    // Nested fields are addressed with dot notation, syntax {'field.nestedField': criterion}
+    // see more https://docs.mongodb.com/manual/tutorial/query-embedded-documents/
+    expect(await findIds({'address.city': {$eq: 'Paris'}})).to.eql([10]);
+    expect(await findIds({'address.country': {$in: ['UK', 'Italy']}})).to.eql([9, 11]);
+    expect(await findIds({'visits.year': {$lt: 1800}})).to.eql([11]);
+
+    // An array field matches when any of its elements matches, syntax {arrayField: {$eq: element}}
+    // see more https://docs.mongodb.com/manual/tutorial/query-arrays/
+    expect(await findIds({tags: {$eq: 'bet'}})).to.eql([9, 10]);
+    expect(await findIds({tags: {$all: ['bet', 'balloon']}})).to.eql([9]);
+    expect(await findIds({tags: {$size: 0}})).to.eql([11]);
+    expect(await findIds({visits: {$elemMatch: {city: {$eq: 'Bombay'}, year: {$gte: 1872}}}})).to.eql([9, 10]);
+    expect(await findIds({visits: {$elemMatch: {city: {$eq: 'Yokohama'}, year: {$lt: 1872}}}})).to.eql([]);
+
+    expect(
+        (await travellersDatabase.find({tags: {$exists: true}}, {sort: {'address.city': -1}})).map(({_id}) => _id)
+    ).to.eql([11, 10, 9]);
+
+    const projected = await travellersDatabase.find({_id: {$eq: 9}}, {projection: {name: 1, 'address.city': 1}});
+
+    expect(projected).to.eql([{_id: 9, name: 'Phileas Fogg', address: {city: 'London'}}]);
+    expect(projected[0].address?.city).to.equal('London');
+    expect(
+        await travellersDatabase.find({_id: {$eq: 10}}, {projection: {_id: 0, 'visits.city': 1}})
+    ).to.eql([{visits: [{city: 'Bombay'}]}]);
+}
+
+async function testProjections() {
+    const usersDatabase = await createUsersDatabase();
+
+    // Inclusion projection returns the listed fields and _id, syntax {fieldName: 1}
+    // see more https://docs.mongodb.com/manual/tutorial/project-fields-from-query-results/
+    const included = await usersDatabase.find({_id: {$eq: 3}}, {projection: {name: 1, age: 1}});
+
+    expect(included).to.eql([{_id: 3, name: 'Moses', age: 70}]);
+    expect(included[0].name.toUpperCase()).to.equal('MOSES');
+
+    // _id can be suppressed with {_id: 0}
+    expect(
+        await usersDatabase.find({_id: {$eq: 3}}, {projection: {_id: 0, name: 1}})
+    ).to.eql([{name: 'Moses'}]);
+
+    // Exclusion projection returns all fields but the listed ones, syntax {fieldName: 0}
+    const excluded = await usersDatabase.find({_id: {$eq: 3}}, {projection: {occupation: 0}});
+
+    expect(excluded).to.eql([{_id: 3, name: 'Moses', age: 70}]);
+    expect(excluded[0].age + 1).to.equal(71);
+    expect(
+        await usersDatabase.findCursor({age: {$gt: 90}}, {projection: {_id: 0, age: 0}}).toArray()
+    ).to.eql([{name: 'Maximum Impact', occupation: 'Magical entity'}]);
+}
+
+async function testSchema() {
+    await createUsersDatabase();
+
+    const filename = path.join(__dirname, 'users.txt');
+    const usersDatabase = new Database<RegisteredUser>(filename, ['name', 'occupation'], {schema: registeredUserSchema});
+
+    await usersDatabase.insert({
+        _id: 9,
+        name: 'Amelie Roach',
+        occupation: 'PR',
+        age: 23,
+        registered: new Date('2020-01-15T10:00:00.000Z'),
+        active: false
+    });
+    await fs.appendFile(
+        filename,
+        'E{"_id":10,"name":"Luc Hook","age":44,"occupation":"Homeless","registered":"2019-06-01T00:00:00.000Z","karma":"9007199254740993"}\n'
+    );
+
+    expect(await fs.readFile(filename, 'utf8')).to.include('"registered":"2020-01-15T10:00:00.000Z"');
+
+    // Stored ISO strings are revived as Date values, so comparisons run on dates rather than strings
+    const registered = await usersDatabase.find({registered: {$gt: new Date('2019-12-31T00:00:00.000Z')}});
+
+    expect(registered.map(({_id}) => _id)).to.eql([9]);
+    expect(registered[0].registered).to.be.instanceOf(Date);
+    expect(
+        (await usersDatabase.find({registered: {$lte: new Date('2020-01-15T10:00:00.000Z')}}, {sort: {_id: 1}})).map(({_id}) => _id)
+    ).to.eql([9, 10]);
+
+    const [luc] = await usersDatabase.find({_id: {$eq: 10}});
+
+    expect(typeof luc.karma).to.equal('bigint');
+    expect(String(luc.karma)).to.equal('9007199254740993');
+    expect(luc.active).to.equal(true);
+    expect((await usersDatabase.find({active: {$eq: false}})).map(({_id}) => _id)).to.eql([9]);
+
+    // Page tokens and persisted indexes keep decoded dates and bigints as such
+    const registeredQuery = {registered: {$lte: new Date('2020-01-15T10:00:00.000Z')}};
+    const [firstRegistered] = await usersDatabase.find(registeredQuery, {sort: {registered: 1}, limit: 1});
+    const afterFirst = usersDatabase.createPageToken(firstRegistered, {registered: 1});
+
+    expect(firstRegistered._id).to.equal(10);
+    expect(
+        (await usersDatabase.find(registeredQuery, {sort: {registered: 1}, limit: 1, after: afterFirst})).map(({_id}) => _id)
+    ).to.eql([9]);
+    expect(
+        await usersDatabase.find({_id: {$gt: 9}}, {sort: {karma: 1}, after: usersDatabase.createPageToken(luc, {karma: 1})})
+    ).to.eql([]);
+
+    let error: unknown;
+
+    try {
+        await usersDatabase.insert({_id: 11, name: 'Nobody', occupation: 'None', age: 'unknown'} as unknown as RegisteredUser);
+    } catch (e) {
+        error = e;
+    }
+
+    expect(error).to.be.instanceOf(ValidationError);
+    expect((error as ValidationError).field).to.equal('age');
+
+    await fs.appendFile(filename, 'E{"_id":11,"name":"Nobody","age":"unknown","occupation":"None"}\n');
+
+    error = undefined;
+
+    try {
+        await usersDatabase.find({});
+    } catch (e) {
+        error = e;
+    }
+
+    expect(error).to.be.instanceOf(MalformedRecordError);
+    expect((error as MalformedRecordError).lineNumber).to.equal(12);
+
+    const quarantiningDatabase = new Database<RegisteredUser>(filename, ['name', 'occupation'], {
+        schema: registeredUserSchema,
+        malformedLines: 'quarantine'
+    });
+
+    expect(await quarantiningDatabase.count({})).to.equal(10);
+    expect(quarantiningDatabase.getQuarantinedLines().map(({lineNumber}) => lineNumber)).to.eql([12]);
+
+    // Optional fields accept stored nulls
+    await fs.appendFile(filename, 'E{"_id":12,"name":"Nobody","age":0,"occupation":"None","registered":null}\n');
+
+    expect((await quarantiningDatabase.find({_id: {$eq: 12}}))[0].registered).to.equal(null);
+
+    await quarantiningDatabase.createIndex('karma', {persist: true});
+    await quarantiningDatabase.insert({_id: 13, name: 'Moses', occupation: 'Prophet', age: 70, active: true, karma: BigInt(7)});
+
+    const reopenedDatabase = new Database<RegisteredUser>(filename, ['name', 'occupation'], {
+        schema: registeredUserSchema,
+        malformedLines: 'quarantine'
+    });
+
+    await reopenedDatabase.createIndex('karma', {persist: true});
+
+    expect((await reopenedDatabase.explain({karma: {$eq: BigInt('9007199254740993')}})).scan).to.equal('index');
+    expect(
+        (await reopenedDatabase.find({karma: {$gte: BigInt(7)}}, {sort: {_id: 1}})).map(({_id}) => _id)
+    ).to.eql([10, 13]);
+}
+
+async function testIdGeneration() {
+    await createUsersDatabase();
+
+    const usersDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation'], {
+        idStrategy: 'autoIncrement'
+    });
+
+    // Records inserted without _id get one from the idStrategy, auto-increment continues from the max _id in the file
+    const amelie = await usersDatabase.insert({name: 'Amelie Roach', occupation: 'PR', age: 23});
+
+    expect(amelie).to.eql({name: 'Amelie Roach', occupation: 'PR', age: 23, _id: 9});
+
+    await usersDatabase.delete({_id: {$eq: 9}});
+
+    expect((await usersDatabase.insert({name: 'Luc Hook', occupation: 'Homeless', age: 44}))._id).to.equal(10);
+    expect((await usersDatabase.insert({_id: 1, name: 'John Malkovich', occupation: 'Actor', age: 52}))._id).to.equal(1);
+
+    let error: unknown;
+
+    try {
+        await usersDatabase.insert({_id: 3, name: 'Aaron', occupation: 'Priest', age: 83});
+    } catch (e) {
+        error = e;
+    }
+
+    expect(error).to.be.instanceOf(DuplicateKeyError);
+    expect((await usersDatabase.find({_id: {$eq: 3}})).map(({name}) => name)).to.eql(['Moses']);
+
+    const upserted = await usersDatabase.update(
+        {name: {$eq: 'Arnold Schwarzenegger'}},
+        {$set: {occupation: 'Actor', age: 64}},
+        {upsert: true}
+    );
+
+    expect(upserted.upsertedId).to.equal(11);
+
+    await fs.unlink(path.join(__dirname, 'notes.txt')).catch(() => undefined);
+
+    // Inserting into a file that does not exist yet creates it
+    const uuidDatabase = new Database<Note, string>(path.join(__dirname, 'notes.txt'), ['text'], {idStrategy: 'uuid'});
+    const objectIdDatabase = new Database<Note, string>(path.join(__dirname, 'notes.txt'), ['text'], {idStrategy: 'objectId'});
+    const uuidNote = await uuidDatabase.insert({text: 'Buy milk'});
+    const objectIdNote = await objectIdDatabase.insert({text: 'Feed the cat'});
+
+    expect(uuidNote._id).to.match(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(objectIdNote._id).to.match(/^[0-9a-f]{24}$/);
+    expect((await uuidDatabase.find({}, {sort: {text: 1}})).map(({_id}) => _id)).to.eql([uuidNote._id, objectIdNote._id]);
+}
+
+async function testBulkWrites() {
+    await createUsersDatabase();
+
+    const usersDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation'], {
+        idStrategy: 'autoIncrement'
+    });
+
+    const inserted = await usersDatabase.insertMany([
+        {name: 'Amelie Roach', occupation: 'PR', age: 23},
+        {name: 'Luc Hook', occupation: 'Homeless', age: 44}
+    ]);
+
+    expect(inserted).to.include({insertedCount: 2, failedCount: 0});
+    expect(inserted.results.map(({inserted}) => inserted && inserted._id)).to.eql([9, 10]);
+
+    // ordered insertMany stops at the first failed record, unordered one continues with the rest
+    const ordered = await usersDatabase.insertMany([
+        {_id: 11, name: 'Arnold Schwarzenegger', occupation: 'Actor', age: 64},
+        {_id: 3, name: 'Aaron', occupation: 'Priest', age: 83},
+        {_id: 12, name: 'Silvester Stallone', occupation: 'Actor', age: 63}
+    ]);
+
+    expect(ordered.results.map(({status}) => status)).to.eql(['applied', 'failed', 'skipped']);
+    expect(ordered.results[1].error).to.be.instanceOf(DuplicateKeyError);
+
+    const unordered = await usersDatabase.insertMany([
+        {_id: 3, name: 'Aaron', occupation: 'Priest', age: 83},
+        {_id: 12, name: 'Silvester Stallone', occupation: 'Actor', age: 63}
+    ], {ordered: false});
+
+    expect(unordered.results.map(({status}) => status)).to.eql(['failed', 'applied']);
+    expect(unordered).to.include({insertedCount: 1, failedCount: 1});
+
+    const summary = await usersDatabase.bulkWrite([
+        {insertOne: {name: 'Jackie Chan', occupation: 'Actor', age: 66}},
+        {deleteMany: {occupation: {$eq: 'Magical entity'}}},
+        {updateOne: {filter: {name: {$eq: 'Moses'}}, update: {$inc: {age: 1}}}},
+        {updateMany: {filter: {occupation: {$eq: 'Actor'}}, update: {$set: {occupation: 'Movie star'}}}},
+        {updateOne: {filter: {name: {$eq: 'Bruce Lee'}}, update: {$set: {occupation: 'Actor', age: 32}}, upsert: true}}
+    ]);
+
+    expect(summary).to.include({
+        insertedCount: 1,
+        deletedCount: 2,
+        matchedCount: 4,
+        modifiedCount: 4,
+        upsertedCount: 1,
+        failedCount: 0
+    });
+    expect(summary.results[4].upsertedId).to.equal(14);
+    expect(
+        (await usersDatabase.find({occupation: {$in: ['Movie star', 'Actor']}}, {sort: {_id: 1}})).map(({_id}) => _id)
+    ).to.eql([11, 12, 13, 14]);
+    expect((await usersDatabase.find({name: {$eq: 'Moses'}}))[0].age).to.equal(71);
+    expect(await usersDatabase.count({occupation: {$eq: 'Magical entity'}})).to.equal(0);
+}
+
+async function testChangeStreams() {
+    const usersDatabase = await createUsersDatabase();
+    const anotherUsersDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation']);
+
+    await fs.unlink(path.join(__dirname, 'users.txt.changes')).catch(() => undefined);
+
+    // Nothing is logged until someone watches
+    await anotherUsersDatabase.updateOne({_id: {$eq: 2}}, {$inc: {age: 1}});
+
+    expect(await fs.readdir(__dirname)).not.to.include('users.txt.changes');
+
+    const changes = await usersDatabase.watch({age: {$gt: 30}});
+
+    // watch(query) emits the changes of matching records made by this or any other database instance
+    await usersDatabase.insert({_id: 9, name: 'Amelie Roach', occupation: 'PR', age: 23});
+    await usersDatabase.insert({_id: 10, name: 'Luc Hook', occupation: 'Homeless', age: 44});
+
+    const inserted = await changes.next();
+
+    expect(inserted.value).to.include({op: 'insert', _id: 10});
+    expect(inserted.value.doc).to.eql({_id: 10, name: 'Luc Hook', occupation: 'Homeless', age: 44});
+
+    await usersDatabase.updateOne({_id: {$eq: 3}}, {$inc: {age: 1}});
+
+    const updated = await changes.next();
+
+    expect(updated.value).to.include({op: 'update', _id: 3});
+    expect(updated.value.doc.age).to.equal(71);
+
+    await anotherUsersDatabase.delete({_id: {$eq: 6}});
+
+    const deleted = await changes.next();
+
+    expect(deleted.value).to.include({op: 'delete', _id: 6});
+
+    await changes.close();
+
+    expect(await changes.next()).to.eql({done: true, value: undefined});
+
+    // resumeAfter replays every change made after the last consumed event, in-place updates and deletes included
+    await anotherUsersDatabase.insert({_id: 11, name: 'Arnold Schwarzenegger', occupation: 'Actor', age: 64});
+    await anotherUsersDatabase.updateOne({_id: {$eq: 5}}, {$inc: {age: 1}});
+    await anotherUsersDatabase.delete({_id: {$in: [7, 8]}});
+
+    const resumed = await usersDatabase.watch({}, {resumeAfter: deleted.value.position});
+    const replayed = [];
+
+    for (let i = 0; i < 4; i++) {
+        replayed.push((await resumed.next()).value);
+    }
+
+    expect(replayed.map(({op, _id}) => [op, _id])).to.eql([['insert', 11], ['update', 5], ['delete', 7], ['delete', 8]]);
+    expect(new Set(replayed.map(({position}) => position)).size).to.equal(4);
+
+    // Compaction trims the log up to what live watchers have consumed, and positions stay valid after it
+    await anotherUsersDatabase.compact();
+
+    expect((await fs.readFile(path.join(__dirname, 'users.txt.changes'), 'utf8')).trim().split('\n')).to.have.lengthOf(1);
+
+    await anotherUsersDatabase.insert({_id: 12, name: 'Moses', occupation: 'Prophet', age: 70});
+
+    const afterCompaction = (await resumed.next()).value;
+
+    expect(afterCompaction).to.include({op: 'insert', _id: 12});
+    expect(afterCompaction.position).to.equal(replayed[3].position + 1);
+
+    await resumed.close();
+
+    let error: unknown;
+
+    try {
+        await usersDatabase.watch({}, {resumeAfter: deleted.value.position});
+    } catch (err) {
+        error = err;
+    }
+
+    expect(error).to.be.instanceOf(DatabaseError);
+}
+
+async function testStorageAdapters() {
+    await createUsersDatabase();
+
+    const initialLines = (await fs.readFile(path.join(__dirname, 'initial-users.txt'), 'utf8')).split('\n').filter(Boolean);
+    const jsonFilename = path.join(__dirname, 'users.json');
+
+    await fs.writeFile(jsonFilename, '');
+
+    const databases = [
+        new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation']),
+        new Database<User>('memory', ['name', 'occupation'], {storage: new MemoryAdapter(initialLines)}),
+        new Database<User>(jsonFilename, ['name', 'occupation'], {storage: new JsonDocumentAdapter(jsonFilename)})
+    ];
+
+    await databases[2].insertMany(await databases[0].find({}));
+
+    // Query, sort and projection behave the same on line file, in-memory and JSON document storages
+    for (const usersDatabase of databases) {
+        await usersDatabase.insert({_id: 9, name: 'Amelie Roach', occupation: 'PR', age: 23});
+        await usersDatabase.delete({occupation: {$eq: 'Magical entity'}});
+        await usersDatabase.updateOne({name: {$eq: 'Moses'}}, {$inc: {age: 1}});
+
+        expect(
+            await usersDatabase.find({age: {$lt: 72}}, {sort: {age: -1}, limit: 3, projection: {_id: 0, name: 1, age: 1}})
+        ).to.eql([{name: 'Moses', age: 71}, {name: 'Inspector Gadget', age: 31}, {name: 'Superman', age: 28}]);
+        expect(
+            (await usersDatabase.findCursor({$text: 'max'}, {projection: {name: 1}}).toArray()).map(({_id}) => _id)
+        ).to.eql([0, 7]);
+        expect(await usersDatabase.count({})).to.equal(7);
+    }
+
+    expect(JSON.parse(await fs.readFile(jsonFilename, 'utf8'))[0]).to.eql({
+        deleted: false,
+        record: {_id: 0, name: 'Max Mustermann', age: 25, occupation: 'Chimney sweep'}
+    });
+
+    // In-memory storage has no files to lock, journal or persist indexes next to
+    const memoryDatabase = new Database<User>('memory', ['name', 'occupation'], {
+        storage: new MemoryAdapter(initialLines),
+        journal: true
+    });
+
+    await memoryDatabase.createIndex('age', {persist: true});
+    await memoryDatabase.insert({_id: 9, name: 'Amelie Roach', occupation: 'PR', age: 23});
+
+    expect((await memoryDatabase.find({age: {$eq: 23}})).map(({_id}) => _id)).to.eql([2, 9]);
+    expect((await fs.readdir(process.cwd())).filter((name: string) => name.startsWith('memory'))).to.eql([]);
+}
+
+async function testExplain() {
+    await createUsersDatabase();
+
+    const slowQueries: SlowQuery<User>[] = [];
+    const usersDatabase = new Database<User>(path.join(__dirname, 'users.txt'), ['name', 'occupation'], {
+        slowQuery: {thresholdMs: 0, log: (slowQuery: SlowQuery<User>) => slowQueries.push(slowQuery)}
+    });
+
+    // Plans report the scan type, per-stage counts and the tombstones skipped while decoding
+    const fullScan = await usersDatabase.explain({age: {$gt: 25}}, {sort: {age: 1}, limit: 2, projection: {name: 1}});
+
+    expect(fullScan.scan).to.equal('full');
+    expect(fullScan.indexedFields).to.eql([]);
+    expect(fullScan.scannedCount).to.equal(8);
+    expect(fullScan.tombstonesSkipped).to.equal(1);
+    expect(fullScan.returnedCount).to.equal(2);
+    expect(fullScan.stages.map(({stage, inputCount, outputCount}) => [stage, inputCount, outputCount])).to.eql([
+        ['read', 0, 9],
+        ['decode', 9, 8],
+        ['filter', 8, 5],
+        ['sort', 5, 5],
+        ['paginate', 5, 2],
+        ['project', 2, 2]
+    ]);
+    expect(fullScan.stages.every(({durationMs}) => durationMs >= 0)).to.equal(true);
+
+    await usersDatabase.createIndex('age');
+
+    const indexScan = await usersDatabase.explain({
+        $and: [{age: {$gte: 23}}, {age: {$lte: 28}}, {name: {$ne: 'Superman'}}]
+    });
+
+    expect(indexScan.scan).to.equal('index');
+    expect(indexScan.indexedFields).to.eql(['age']);
+    expect(indexScan.scannedCount).to.equal(3);
+    expect(indexScan.returnedCount).to.equal(2);
+    expect(indexScan.stages.map(({stage}) => stage)).to.eql(['read', 'decode', 'filter']);
+
+    // Queries running longer than the threshold are passed to the slow-query log with their plan
+    expect(await usersDatabase.find({age: {$eq: 23}})).to.eql([
+        {_id: 2, name: 'Kate Müller', age: 23, occupation: 'Astronaut'}
+    ]);
+    expect(slowQueries.length).to.equal(1);
+    expect(slowQueries[0].query).to.eql({age: {$eq: 23}});
+    expect(slowQueries[0].plan.scan).to.equal('index');
+    expect(slowQueries[0].plan.returnedCount).to.equal(1);
+}
+
+async function testSorting() {
+    const tasks: Task[] = [
+        {_id: 0, title: 'item 10', due: '2020-01-01T09:00:00Z', priority: 2},
+        {_id: 1, title: 'Item 2', due: '2020-01-01T10:00:00+02:00', priority: null},
+        {_id: 2, title: 'Item 1', priority: 1},
+        {_id: 3, title: 'item 1', due: '2019-12-31', priority: 2}
+    ];
+    const tasksDatabase = new Database<Task>('memory', ['title'], {
+        storage: new MemoryAdapter(tasks.map((task: Task) => `E${JSON.stringify(task)}`))
+    });
+    const ids = (records: Task[]) => records.map(({_id}) => _id);
+
+    // Collation compares strings per locale, optionally numerically and ignoring case; ties keep their stored order
+    expect(ids(await tasksDatabase.find({}, {sort: {title: 1}}))).to.eql([3, 2, 0, 1]);
+    expect(
+        ids(await tasksDatabase.find({}, {sort: {title: 1}, collation: {locale: 'en', numeric: true, caseInsensitive: true}}))
+    ).to.eql([2, 3, 1, 0]);
+
+    // Range queries order strings the same way sorts do, with or without an index
+    const titles = {locale: 'en', numeric: true, caseInsensitive: true};
+
+    expect(ids(await tasksDatabase.find({title: {$gt: 'item 2'}}))).to.eql([1]);
+    expect(ids(await tasksDatabase.find({title: {$gt: 'item 2'}}, {collation: titles}))).to.eql([0]);
+    expect(ids(await tasksDatabase.find({title: {$gte: 'item 2'}}, {collation: titles}))).to.eql([0, 1]);
+
+    await tasksDatabase.createIndex('title');
+
+    expect(ids(await tasksDatabase.find({title: {$gte: 'item 2'}}, {collation: titles}))).to.eql([0, 1]);
+    expect(ids(await tasksDatabase.find({title: {$lte: 'ITEM 1'}}, {collation: titles}))).to.eql([2, 3]);
+
+    // ISO strings are compared as dates when the collation asks for it, in sorts and range queries alike
+    const dates = {dates: true};
+
+    expect(ids(await tasksDatabase.find({}, {sort: {due: 1}}))).to.eql([2, 3, 0, 1]);
+    expect(ids(await tasksDatabase.find({}, {sort: {due: 1}, collation: dates}))).to.eql([2, 3, 1, 0]);
+    expect(ids(await tasksDatabase.find({due: {$lt: '2020-01-01T09:30:00Z'}}))).to.eql([0, 3]);
+    expect(ids(await tasksDatabase.find({due: {$lt: '2020-01-01T09:30:00Z'}}, {collation: dates}))).to.eql([0, 1, 3]);
+
+    await tasksDatabase.createIndex('due');
+
+    expect(ids(await tasksDatabase.find({due: {$lt: '2020-01-01T09:30:00Z'}}, {collation: dates}))).to.eql([0, 1, 3]);
+
+    // Missing values come first ascending and last descending unless told otherwise
+    expect(ids(await tasksDatabase.find({}, {sort: {due: -1}, collation: dates}))).to.eql([0, 1, 3, 2]);
+    expect(ids(await tasksDatabase.find({}, {sort: {due: {direction: -1, nulls: 'first'}}, collation: dates}))).to.eql([2, 0, 1, 3]);
+
+    // Fields may bring their own comparators
+    expect(
+        ids(await tasksDatabase.find({}, {sort: {priority: {compare: (a: number, b: number) => b - a, nulls: 'last'}, _id: -1}}))
+    ).to.eql([3, 0, 2, 1]);
+}
+
+async function runTests() {
+    await testUsersDatabase();
+    await testUsersUpdates();
+    await testUsersIndexes();
+    await testConcurrentWrites();
+    await testCompaction();
+    await testJournalRecovery();
+    await testTransactions();
+    await testCursors();
+    await testPagination();
+    await testAggregation();
+    await testQueryOperators();
+    await testFullTextSearch();
+    await testNestedFields();
+    await testProjections();
+    await testSchema();
+    await testIdGeneration();
+    await testBulkWrites();
+    await testChangeStreams();
+    await testStorageAdapters();
+    await testExplain();
+    await testSorting();
+}
+
+runTests().then(
     () => console.log('All tests have succeeded, congratulations!'),
     (e) => console.error(e.stack)
 );
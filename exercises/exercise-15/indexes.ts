@@ -0,0 +1,159 @@
+import {ComparisonOperators} from './database';
+import {DuplicateKeyError} from './errors';
+import {Collation} from './collation';
+import {compareValues} from './fields';
+
+export interface IndexOptions {
+    unique?: boolean;
+    persist?: boolean;
+}
+
+export interface PersistedIndex {
+    version: string;
+    entries: [ unknown, number[] ][];
+}
+
+export class FieldIndex<T extends object, F extends keyof T = keyof T> {
+
+    protected entries: Map<unknown, Set<number>> = new Map<unknown, Set<number>>();
+
+    constructor(readonly field: F,
+                readonly options: IndexOptions) {
+    }
+
+    assertUnique(record: T, ownPosition?: number): void {
+        if (!this.options.unique) {
+            return;
+        }
+
+        this.keysOf(record).forEach((value: unknown) => {
+            const positions: Set<number> | undefined = this.entries.get(value);
+
+            if (!!positions && Array.from(positions).some((position: number) => position !== ownPosition)) {
+                throw new DuplicateKeyError<T>(this.field, value);
+            }
+        });
+    }
+
+    add(record: T, position: number): void {
+        this.keysOf(record).forEach((value: unknown) => {
+            const positions: Set<number> = this.entries.get(value) || new Set<number>();
+
+            positions.add(position);
+            this.entries.set(value, positions);
+        });
+    }
+
+    remove(record: T, position: number): void {
+        this.keysOf(record).forEach((value: unknown) => {
+            const positions: Set<number> | undefined = this.entries.get(value);
+
+            if (!positions) {
+                return;
+            }
+
+            positions.delete(position);
+
+            if (positions.size === 0) {
+                this.entries.delete(value);
+            }
+        });
+    }
+
+    clear(): void {
+        this.entries = new Map<unknown, Set<number>>();
+    }
+
+    lookup(criterion: ComparisonOperators<unknown>, collation: Collation = {}): number[] | undefined {
+        const [ $eq, $gt, $gte, $lt, $lte ]: unknown[] = [ criterion.$eq, criterion.$gt, criterion.$gte, criterion.$lt, criterion.$lte ]
+            .map((value: unknown) => this.keyOf(value));
+        const $in: unknown[] | undefined = criterion.$in && criterion.$in.map((value: unknown) => this.keyOf(value));
+        const bounds: [ unknown, (comparison: number) => boolean ][] = [
+            [ $gt, (comparison: number) => comparison > 0 ],
+            [ $gte, (comparison: number) => comparison >= 0 ],
+            [ $lt, (comparison: number) => comparison < 0 ],
+            [ $lte, (comparison: number) => comparison <= 0 ]
+        ];
+        const activeBounds: [ unknown, (comparison: number) => boolean ][] = bounds
+            .filter(([ bound ]: [ unknown, (comparison: number) => boolean ]) => bound !== undefined);
+        const candidates: number[][] = [];
+
+        if ([ $eq, ...($in || []) ].some((value: unknown) => typeof value === 'object' && value !== null)) {
+            return undefined;
+        }
+
+        if ('$eq' in criterion) {
+            candidates.push(this.positionsOf([ $eq ]));
+        }
+
+        if ($in !== undefined) {
+            candidates.push(this.positionsOf($in));
+        }
+
+        if (activeBounds.length > 0) {
+            candidates.push(this.positionsWhere((value: unknown) => activeBounds.every(
+                ([ bound, accepts ]: [ unknown, (comparison: number) => boolean ]) => {
+                    const comparison: number | undefined = compareValues(value, bound, collation);
+
+                    return comparison !== undefined && accepts(comparison);
+                }
+            )));
+        }
+
+        return candidates.length > 0
+            ? candidates.reduce((prev: number[], cur: number[]) => prev.filter((position: number) => cur.includes(position)))
+            : undefined;
+    }
+
+    toJSON(version: string): PersistedIndex {
+        const entries: [ unknown, number[] ][] = [];
+
+        this.entries.forEach((positions: Set<number>, value: unknown) => entries.push([ value, Array.from(positions) ]));
+
+        return { version, entries };
+    }
+
+    load(persisted: PersistedIndex): void {
+        this.entries = new Map<unknown, Set<number>>(
+            persisted.entries.map(([ value, positions ]: [ unknown, number[] ]): [ unknown, Set<number> ] => [ value, new Set(positions) ])
+        );
+    }
+
+    clone(): FieldIndex<T, F> {
+        const copy: FieldIndex<T, F> = new FieldIndex<T, F>(this.field, this.options);
+
+        this.entries.forEach((positions: Set<number>, value: unknown) => copy.entries.set(value, new Set(positions)));
+
+        return copy;
+    }
+
+    protected keysOf(record: T): unknown[] {
+        const value: unknown = record[this.field];
+
+        return Array.isArray(value) ? value.map((elm: unknown) => this.keyOf(elm)) : [ this.keyOf(value) ];
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected keyOf(value: unknown): unknown {
+        return value instanceof Date ? value.getTime() : value;
+    }
+
+    protected positionsOf(values: ReadonlyArray<unknown>): number[] {
+        return values.reduce(
+            (prev: number[], value: unknown): number[] => [ ...prev, ...Array.from(this.entries.get(value) || []) ],
+            []
+        );
+    }
+
+    protected positionsWhere(predicate: (value: unknown) => boolean): number[] {
+        const result: number[] = [];
+
+        this.entries.forEach((positions: Set<number>, value: unknown) => {
+            if (predicate(value)) {
+                positions.forEach((position: number) => result.push(position));
+            }
+        });
+
+        return result;
+    }
+}
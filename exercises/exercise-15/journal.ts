@@ -0,0 +1,149 @@
+import {getFileVersion} from './storage';
+
+const fs = require('fs');
+
+// position, new line and the line it replaces (null when appending)
+export type LinePut = [ number, string, string | null ];
+
+export interface JournalEntry {
+    seq: number;
+    puts: LinePut[];
+}
+
+export interface RecoveryResult {
+    replayed: number;
+    discarded: number;
+}
+
+export interface JournalReplay extends RecoveryResult {
+    lines: string[];
+}
+
+export class Journal {
+
+    readonly journalFilename: string;
+
+    protected seq: number = 0;
+
+    constructor(filename: string) {
+        this.journalFilename = `${filename}.wal`;
+    }
+
+    static replay(lines: string[], entries: JournalEntry[]): JournalReplay {
+        // a crash between a checkpoint's data write and the journal truncation leaves every entry folded in already
+        if (entries.length > 0 && Journal.isFolded(lines, entries)) {
+            return { lines, replayed: entries.length, discarded: 0 };
+        }
+
+        return entries.reduce((prev: JournalReplay, entry: JournalEntry): JournalReplay => {
+            const isApplied: boolean = entry.puts.every(([ position, line ]: LinePut) => prev.lines[position] === line);
+            const isPending: boolean = entry.puts.every((put: LinePut) => Journal.isPending(prev.lines, put));
+
+            if (isApplied) {
+                return { ...prev, replayed: prev.replayed + 1 };
+            }
+
+            // the data file was rewritten by someone else since, so the positions no longer point at the same records
+            if (!isPending) {
+                return { ...prev, discarded: prev.discarded + 1 };
+            }
+
+            const next: string[] = [ ...prev.lines ];
+
+            entry.puts.forEach(([ position, line ]: LinePut) => next[position] = line);
+
+            return {
+                lines: next.filter((line: string | undefined) => line !== undefined),
+                replayed: prev.replayed + 1,
+                discarded: prev.discarded
+            };
+        }, { lines, replayed: 0, discarded: 0 });
+    }
+
+    protected static isFolded(lines: string[], entries: JournalEntry[]): boolean {
+        const folded: Map<number, string> = new Map<number, string>();
+
+        entries.forEach((entry: JournalEntry) => entry.puts.forEach(([ position, line ]: LinePut) => folded.set(position, line)));
+
+        return Array.from(folded.entries()).every(([ position, line ]: [ number, string ]) => lines[position] === line);
+    }
+
+    protected static isPending(lines: string[], [ position, line, previous ]: LinePut): boolean {
+        if (previous !== null) {
+            return lines[position] === previous;
+        }
+
+        // an append torn by a crash leaves a prefix of its line at the end of the data file
+        return lines[position] === undefined || (position === lines.length - 1 && line.startsWith(lines[position]));
+    }
+
+    async append(puts: LinePut[]): Promise<void> {
+        const entry: JournalEntry = { seq: ++this.seq, puts };
+
+        return new Promise<void>((resolve, reject) => {
+            fs.appendFile(this.journalFilename, `${JSON.stringify(entry)}\n`, (err: any) => {
+                if (err) {
+                    return reject(err);
+                }
+
+                return resolve();
+            });
+        });
+    }
+
+    async read(): Promise<{ entries: JournalEntry[], discarded: number }> {
+        return new Promise<{ entries: JournalEntry[], discarded: number }>((resolve, reject) => {
+            fs.readFile(this.journalFilename, 'utf8', (err: any, data: string) => {
+                if (err) {
+                    return err.code === 'ENOENT' ? resolve({ entries: [], discarded: 0 }) : reject(err);
+                }
+
+                const entries: JournalEntry[] = [];
+                let discarded: number = 0;
+
+                data.split('\n')
+                    .filter((line: string) => line.length > 0)
+                    .forEach((line: string) => {
+                        const entry: JournalEntry | null = this.parseEntry(line);
+
+                        if (!entry) {
+                            discarded++;
+                            return;
+                        }
+
+                        entries.push(entry);
+                        this.seq = Math.max(this.seq, entry.seq);
+                    });
+
+                return resolve({ entries, discarded });
+            });
+        });
+    }
+
+    async getVersion(): Promise<string> {
+        return getFileVersion(this.journalFilename);
+    }
+
+    async truncate(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            fs.unlink(this.journalFilename, (err: any) => {
+                if (err && err.code !== 'ENOENT') {
+                    return reject(err);
+                }
+
+                return resolve();
+            });
+        });
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected parseEntry(line: string): JournalEntry | null {
+        try {
+            const entry: JournalEntry = JSON.parse(line);
+
+            return typeof entry.seq === 'number' && Array.isArray(entry.puts) ? entry : null;
+        } catch (err) {
+            return null;
+        }
+    }
+}
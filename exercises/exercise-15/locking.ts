@@ -0,0 +1,254 @@
+import {AsyncLocalStorage} from 'async_hooks';
+import {DatabaseError, LockTimeoutError} from './errors';
+
+const fs = require('fs');
+const path = require('path');
+
+export interface LockOptions {
+    retryInterval?: number;
+    timeout?: number;
+    staleAfter?: number;
+}
+
+interface WriteRun {
+    settled: boolean;
+}
+
+export class WriteQueue {
+
+    // storages without a file are only queued for as long as they are alive, file queues until they have drained
+    private static readonly fileQueues: Map<string, WriteQueue> = new Map<string, WriteQueue>();
+    private static readonly storageQueues: WeakMap<object, WriteQueue> = new WeakMap<object, WriteQueue>();
+
+    private tail: Promise<void> = Promise.resolve();
+    private readonly running: AsyncLocalStorage<WriteRun> = new AsyncLocalStorage<WriteRun>();
+
+    constructor(private readonly onDrain: (queue: WriteQueue) => void = () => undefined) {
+    }
+
+    static for(target: string | object): WriteQueue {
+        if (typeof target !== 'string') {
+            const storageQueue: WriteQueue = WriteQueue.storageQueues.get(target) || new WriteQueue();
+
+            WriteQueue.storageQueues.set(target, storageQueue);
+
+            return storageQueue;
+        }
+
+        const filename: string = path.resolve(target);
+        const queue: WriteQueue = WriteQueue.fileQueues.get(filename) || new WriteQueue((drained: WriteQueue) => {
+            if (WriteQueue.fileQueues.get(filename) === drained) {
+                WriteQueue.fileQueues.delete(filename);
+            }
+        });
+
+        WriteQueue.fileQueues.set(filename, queue);
+
+        return queue;
+    }
+
+    run<R>(operation: () => Promise<R>): Promise<R> {
+        const current: WriteRun | undefined = this.running.getStore();
+
+        // an operation queued from inside a running one (e.g. a transaction callback) would wait for itself forever,
+        // async work merely started during a write (timers, unawaited calls) inherits its run after it has settled
+        if (!!current && !current.settled) {
+            return Promise.reject(new DatabaseError('Cannot start a write from inside another write on the same storage'));
+        }
+
+        const result: Promise<R> = this.tail.then(() => new Promise<R>((resolve, reject) => {
+            const run: WriteRun = { settled: false };
+
+            this.running.run(run, () => operation().then(
+                (value: R) => {
+                    run.settled = true;
+                    resolve(value);
+                },
+                (err: unknown) => {
+                    run.settled = true;
+                    reject(err);
+                }
+            ));
+        }));
+
+        const tail: Promise<void> = result.then(() => undefined, () => undefined);
+
+        this.tail = tail;
+        tail.then(() => {
+            if (this.tail === tail) {
+                this.onDrain(this);
+            }
+        });
+
+        return result;
+    }
+}
+
+export class FileLock {
+
+    readonly lockFilename: string;
+    readonly takeoverFilename: string;
+
+    protected readonly retryInterval: number;
+    protected readonly timeout: number;
+    protected readonly staleAfter: number;
+    protected readonly token: string;
+    protected heartbeat: NodeJS.Timeout | null = null;
+
+    constructor(filename: string, options: LockOptions = {}) {
+        this.lockFilename = `${filename}.lock`;
+        this.takeoverFilename = `${filename}.lock.takeover`;
+        this.retryInterval = options.retryInterval || 10;
+        this.timeout = options.timeout || 5000;
+        this.staleAfter = options.staleAfter || 30000;
+        this.token = `${process.pid}:${Math.random().toString(36).substring(2)}`;
+    }
+
+    async withLock<R>(operation: () => Promise<R>): Promise<R> {
+        await this.acquire();
+
+        try {
+            return await operation();
+        } finally {
+            await this.release();
+        }
+    }
+
+    async acquire(): Promise<void> {
+        const startedAt: number = Date.now();
+
+        while (!(await this.tryAcquire())) {
+            if (Date.now() - startedAt > this.timeout) {
+                throw new LockTimeoutError(this.lockFilename, this.timeout);
+            }
+
+            await new Promise<void>((resolve) => setTimeout(resolve, this.retryInterval));
+        }
+
+        // a held lock is touched well within staleAfter, so only a dead or hung owner ever looks stale
+        this.heartbeat = setInterval(() => this.touch(), Math.max(1, Math.floor(this.staleAfter / 3)));
+        this.heartbeat.unref();
+    }
+
+    async release(): Promise<void> {
+        this.stopHeartbeat();
+
+        await this.removeIfOwnedBy(this.token);
+    }
+
+    protected async tryAcquire(): Promise<boolean> {
+        if (await this.createExclusive(this.lockFilename)) {
+            return true;
+        }
+
+        const owner: string | undefined = await this.readOwner();
+
+        if (owner !== undefined && await this.isStale(owner)) {
+            await this.takeOver(owner);
+        }
+
+        return false;
+    }
+
+    // contenders serialize on a takeover marker, so a stale lock is re-read and removed by one of them at a time
+    // and a fresh lock taken in the meantime is left alone
+    protected async takeOver(staleOwner: string): Promise<void> {
+        if (!(await this.createExclusive(this.takeoverFilename))) {
+            // a contender that died while holding the marker would otherwise block every takeover
+            if (await this.getAge(this.takeoverFilename) > this.staleAfter) {
+                await this.unlinkFile(this.takeoverFilename);
+            }
+
+            return;
+        }
+
+        try {
+            await this.removeIfOwnedBy(staleOwner);
+        } finally {
+            await this.unlinkFile(this.takeoverFilename);
+        }
+    }
+
+    protected async createExclusive(filename: string): Promise<boolean> {
+        return new Promise<boolean>((resolve, reject) => {
+            fs.writeFile(filename, this.token, { flag: 'wx' }, (err: any) => {
+                if (!err) {
+                    return resolve(true);
+                }
+
+                return err.code === 'EEXIST' ? resolve(false) : reject(err);
+            });
+        });
+    }
+
+    protected async readOwner(): Promise<string | undefined> {
+        return new Promise<string | undefined>((resolve) => {
+            fs.readFile(this.lockFilename, 'utf8', (err: any, owner: string) => resolve(err ? undefined : owner));
+        });
+    }
+
+    protected async isStale(owner: string): Promise<boolean> {
+        return !this.isAlive(parseInt(owner, 10)) || await this.getAge(this.lockFilename) > this.staleAfter;
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected async getAge(filename: string): Promise<number> {
+        return new Promise<number>((resolve) => {
+            fs.stat(filename, (err: any, stats: { mtimeMs: number }) => resolve(err ? 0 : Date.now() - stats.mtimeMs));
+        });
+    }
+
+    protected async removeIfOwnedBy(owner: string): Promise<void> {
+        if (await this.readOwner() === owner) {
+            await this.unlinkFile(this.lockFilename);
+        }
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected async unlinkFile(filename: string): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            fs.unlink(filename, (err: any) => {
+                if (err && err.code !== 'ENOENT') {
+                    return reject(err);
+                }
+
+                return resolve();
+            });
+        });
+    }
+
+    // a lock taken over after this process hung is someone else's, so its heartbeat stops instead of refreshing it
+    protected async touch(): Promise<void> {
+        if (await this.readOwner() !== this.token) {
+            this.stopHeartbeat();
+
+            return;
+        }
+
+        const now: Date = new Date();
+
+        fs.utimes(this.lockFilename, now, now, () => undefined);
+    }
+
+    protected stopHeartbeat(): void {
+        if (!!this.heartbeat) {
+            clearInterval(this.heartbeat);
+            this.heartbeat = null;
+        }
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected isAlive(pid: number): boolean {
+        if (!pid) {
+            return false;
+        }
+
+        try {
+            process.kill(pid, 0);
+
+            return true;
+        } catch (err) {
+            return (err as NodeJS.ErrnoException).code === 'EPERM';
+        }
+    }
+}
@@ -0,0 +1,127 @@
+import {ValidationError} from './errors';
+
+export interface Codec<T> {
+    decode(raw: unknown): T;
+    encode(record: T): object;
+}
+
+type TypeName<V> = V extends string
+    ? 'string'
+    : V extends number
+        ? 'number'
+        : V extends boolean
+            ? 'boolean'
+            : V extends bigint
+                ? 'bigint'
+                : V extends Date
+                    ? 'date'
+                    : V extends ReadonlyArray<unknown>
+                        ? 'array'
+                        : 'object';
+
+export interface FieldSchema<V> {
+    type: TypeName<NonNullable<V>>;
+    optional?: boolean;
+    default?: V | (() => V);
+}
+
+export type SchemaDefinition<T> = {
+    [K in keyof T]-?: FieldSchema<T[K]>;
+};
+
+type PlainObject = {
+    [key: string]: unknown;
+};
+
+const isPlainObject = (value: unknown): value is PlainObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+export class Schema<T> implements Codec<T> {
+
+    constructor(protected readonly definition: SchemaDefinition<T>) {
+    }
+
+    decode(raw: unknown): T {
+        if (!isPlainObject(raw)) {
+            throw new ValidationError('record must be an object');
+        }
+
+        const fields: [ string, FieldSchema<unknown> ][] = Object.entries(this.definition);
+
+        return fields.reduce((prev: PlainObject, [ field, schema ]: [ string, FieldSchema<unknown> ]): PlainObject => {
+            const value: unknown = raw[field] === undefined ? this.getDefault(schema) : raw[field];
+
+            if (value === undefined || value === null) {
+                if (!schema.optional) {
+                    throw new ValidationError('value is required', field);
+                }
+
+                return prev;
+            }
+
+            return { ...prev, [field]: this.decodeValue(field, schema.type, value) };
+        }, { ...raw }) as T;
+    }
+
+    encode(record: T): object {
+        return Object.entries(record as object).reduce(
+            (prev: PlainObject, [ field, value ]: [ string, unknown ]): PlainObject => ({
+                ...prev,
+                [field]: value instanceof Date
+                    ? value.toISOString()
+                    : typeof value === 'bigint' ? value.toString() : value
+            }),
+            {}
+        );
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected getDefault(schema: FieldSchema<unknown>): unknown {
+        return typeof schema.default === 'function' ? schema.default() : schema.default;
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected decodeValue(field: string, type: string, value: unknown): unknown {
+        switch (type) {
+            case 'date': {
+                const date: Date | null = value instanceof Date
+                    ? value
+                    : typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+
+                if (!date || isNaN(date.getTime())) {
+                    throw new ValidationError(`expected a date, got ${JSON.stringify(value)}`, field);
+                }
+
+                return date;
+            }
+            case 'bigint':
+                if (typeof value === 'bigint') {
+                    return value;
+                }
+
+                if ((typeof value === 'string' && /^-?\d+$/.test(value)) || (typeof value === 'number' && Number.isInteger(value))) {
+                    return BigInt(value);
+                }
+
+                throw new ValidationError(`expected a bigint, got ${JSON.stringify(value)}`, field);
+            case 'array':
+                if (!Array.isArray(value)) {
+                    throw new ValidationError(`expected an array, got ${JSON.stringify(value)}`, field);
+                }
+
+                return value;
+            case 'object':
+                if (!isPlainObject(value)) {
+                    throw new ValidationError(`expected an object, got ${JSON.stringify(value)}`, field);
+                }
+
+                return value;
+            default:
+                if (typeof value !== type) {
+                    throw new ValidationError(`expected a ${type}, got ${JSON.stringify(value)}`, field);
+                }
+
+                return value;
+        }
+    }
+}
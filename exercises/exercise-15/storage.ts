@@ -0,0 +1,247 @@
+const readline = require('readline');
+const fs = require('fs');
+
+export interface StorageAdapter {
+    readonly filename?: string;
+
+    readLines(): Promise<string[]>;
+
+    append(lines: string[]): Promise<void>;
+
+    rewrite(lines: string[]): Promise<void>;
+
+    streamLines?(): AsyncIterableIterator<string>;
+
+    getVersion(): Promise<string>;
+}
+
+export interface FileStats {
+    ino: number;
+    size: number;
+    mtimeMs: number;
+}
+
+interface JsonDocumentEntry {
+    deleted: boolean;
+    record: object;
+}
+
+export async function readFile(filename: string): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+        fs.readFile(filename, 'utf8', (err: any, data: string) => {
+            if (err) {
+                return reject(err);
+            }
+
+            return resolve(data);
+        });
+    });
+}
+
+export async function writeFile(filename: string, data: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.writeFile(filename, data, (err: any) => {
+            if (err) {
+                return reject(err);
+            }
+
+            return resolve();
+        });
+    });
+}
+
+export async function appendFile(filename: string, data: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+        fs.appendFile(filename, data, (err: any) => {
+            if (err) {
+                return reject(err);
+            }
+
+            return resolve();
+        });
+    });
+}
+
+export async function readBytes(filename: string, start: number): Promise<Buffer> {
+    return new Promise<Buffer>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        const input = fs.createReadStream(filename, { start });
+
+        input.on('data', (chunk: Buffer) => chunks.push(chunk));
+        input.on('error', (err: NodeJS.ErrnoException) => err.code === 'ENOENT' ? resolve(Buffer.alloc(0)) : reject(err));
+        input.on('end', () => resolve(Buffer.concat(chunks)));
+    });
+}
+
+export async function replaceFile(filename: string, data: string): Promise<void> {
+    const temporaryFilename: string = `${filename}.${process.pid}.tmp`;
+
+    await writeFile(temporaryFilename, data);
+
+    return new Promise<void>((resolve, reject) => {
+        fs.rename(temporaryFilename, filename, (err: any) => {
+            if (err) {
+                return reject(err);
+            }
+
+            return resolve();
+        });
+    });
+}
+
+export async function statFile(filename: string): Promise<FileStats | null> {
+    return new Promise<FileStats | null>((resolve, reject) => {
+        fs.stat(filename, (err: any, stats: FileStats) => {
+            if (err) {
+                return err.code === 'ENOENT' ? resolve(null) : reject(err);
+            }
+
+            return resolve(stats);
+        });
+    });
+}
+
+export async function getFileVersion(filename: string): Promise<string> {
+    const stats: FileStats | null = await statFile(filename);
+
+    return !!stats ? `${stats.ino}:${stats.size}:${stats.mtimeMs}` : '';
+}
+
+export class LineFileAdapter implements StorageAdapter {
+
+    constructor(readonly filename: string) {
+    }
+
+    async readLines(): Promise<string[]> {
+        return new Promise<string[]>((resolve, reject) => {
+            try {
+                const lines: string[] = [];
+                const input = fs.createReadStream(this.filename);
+
+                const readInterface = readline.createInterface({ input });
+
+                const onError = (err: NodeJS.ErrnoException) => {
+                    if (err.code === 'ENOENT') {
+                        resolve([]);
+                    } else {
+                        reject(err);
+                    }
+
+                    readInterface.close();
+                };
+
+                input.on('error', onError);
+                readInterface.on('error', onError);
+
+                readInterface.on('line', (line: string) => {
+                    if (line.length > 0) {
+                        lines.push(line);
+                    }
+                });
+
+                readInterface.on('close', () => resolve(lines));
+            } catch (err) {
+                return reject(err);
+            }
+        });
+    }
+
+    async append(lines: string[]): Promise<void> {
+        await appendFile(this.filename, lines.map((line: string) => `${line}\n`).join(''));
+    }
+
+    async rewrite(lines: string[]): Promise<void> {
+        await replaceFile(this.filename, lines.map((line: string) => `${line}\n`).join(''));
+    }
+
+    async *streamLines(): AsyncIterableIterator<string> {
+        const input = fs.createReadStream(this.filename);
+        const readInterface = readline.createInterface({ input, crlfDelay: Infinity });
+
+        try {
+            for await (const line of readInterface) {
+                if (line.length > 0) {
+                    yield line;
+                }
+            }
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw err;
+            }
+        } finally {
+            readInterface.close();
+            input.destroy();
+        }
+    }
+
+    async getVersion(): Promise<string> {
+        return getFileVersion(this.filename);
+    }
+}
+
+export class MemoryAdapter implements StorageAdapter {
+
+    protected version: number = 0;
+
+    constructor(protected lines: string[] = []) {
+    }
+
+    async readLines(): Promise<string[]> {
+        return this.lines.slice();
+    }
+
+    async append(lines: string[]): Promise<void> {
+        this.lines = [ ...this.lines, ...lines ];
+        this.version++;
+    }
+
+    async rewrite(lines: string[]): Promise<void> {
+        this.lines = lines.slice();
+        this.version++;
+    }
+
+    async getVersion(): Promise<string> {
+        return String(this.version);
+    }
+}
+
+export class JsonDocumentAdapter implements StorageAdapter {
+
+    constructor(readonly filename: string) {
+    }
+
+    async readLines(): Promise<string[]> {
+        let data: string;
+
+        try {
+            data = await readFile(this.filename);
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+
+            throw err;
+        }
+
+        const entries: JsonDocumentEntry[] = data.trim().length > 0 ? JSON.parse(data) : [];
+
+        return entries.map(({ deleted, record }: JsonDocumentEntry) => `${deleted ? 'D' : 'E'}${JSON.stringify(record)}`);
+    }
+
+    async append(lines: string[]): Promise<void> {
+        await this.rewrite([ ...await this.readLines(), ...lines ]);
+    }
+
+    async rewrite(lines: string[]): Promise<void> {
+        const entries: JsonDocumentEntry[] = lines.map((line: string): JsonDocumentEntry => ({
+            deleted: line.startsWith('D'),
+            record: JSON.parse(line.substring(1))
+        }));
+
+        await replaceFile(this.filename, JSON.stringify(entries, null, 2));
+    }
+
+    async getVersion(): Promise<string> {
+        return getFileVersion(this.filename);
+    }
+}
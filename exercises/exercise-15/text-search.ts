@@ -0,0 +1,127 @@
+export interface TextSearchOptions {
+    stemming?: boolean;
+    stopWords?: boolean | ReadonlyArray<string>;
+}
+
+export interface TextQuery {
+    terms: string[];
+    phrases: string[][];
+    negatedTerms: string[];
+    negatedPhrases: string[][];
+}
+
+const defaultStopWords: ReadonlyArray<string> = [
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+    'of', 'on', 'or', 'that', 'the', 'to', 'was', 'with'
+];
+
+const stemmingRules: ReadonlyArray<[ RegExp, string ]> = [
+    [ /ies$/, 'y' ],
+    [ /(ss|sh|ch|x|z)es$/, '$1' ],
+    [ /([^s])s$/, '$1' ],
+    [ /(.{2,})ing$/, '$1' ],
+    [ /(.{2,})ed$/, '$1' ],
+    [ /(.{2,})ly$/, '$1' ]
+];
+
+export class TextAnalyzer {
+
+    protected readonly stopWords: Set<string>;
+
+    constructor(protected readonly options: TextSearchOptions = {}) {
+        const stopWords: ReadonlyArray<string> = options.stopWords === true
+            ? defaultStopWords
+            : options.stopWords || [];
+
+        this.stopWords = new Set(stopWords.map((word: string) => this.normalize(word)));
+    }
+
+    analyze(text: string): string[] {
+        return this.tokenize(text)
+            .filter((token: string) => !this.stopWords.has(token))
+            .map((token: string) => this.options.stemming ? this.stem(token) : token);
+    }
+
+    parseQuery(text: string): TextQuery {
+        const query: TextQuery = { terms: [], phrases: [], negatedTerms: [], negatedPhrases: [] };
+        const pattern: RegExp = /(-?)"([^"]*)"|(-?)(\S+)/g;
+        let match: RegExpExecArray | null;
+
+        while ((match = pattern.exec(text)) !== null) {
+            const [ , phraseNegation, phrase, termNegation, term ] = match;
+
+            if (phrase !== undefined) {
+                const words: string[] = this.analyze(phrase);
+
+                if (words.length > 0) {
+                    (phraseNegation ? query.negatedPhrases : query.phrases).push(words);
+                }
+            } else {
+                (termNegation ? query.negatedTerms : query.terms).push(...this.analyze(term));
+            }
+        }
+
+        return query;
+    }
+
+    protected tokenize(text: string): string[] {
+        return this.normalize(text).match(/[\p{L}\p{N}]+/gu) || [];
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected normalize(text: string): string {
+        return text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected stem(word: string): string {
+        const rule: [ RegExp, string ] | undefined = stemmingRules.find(([ suffix ]: [ RegExp, string ]) => suffix.test(word));
+
+        return !!rule && word.length > 3 ? word.replace(rule[0], rule[1]) : word;
+    }
+}
+
+export class TextSearch {
+
+    protected readonly analyzer: TextAnalyzer;
+
+    constructor(readonly fieldNames: ReadonlyArray<PropertyKey>,
+                options: TextSearchOptions = {}) {
+        this.analyzer = new TextAnalyzer(options);
+    }
+
+    matches(record: object, text: string): boolean {
+        return this.score(record, text) > 0;
+    }
+
+    score(record: object, text: string): number {
+        const query: TextQuery = this.analyzer.parseQuery(text);
+        const fields: string[][] = this.fieldNames.map((name: PropertyKey) =>
+            this.analyzer.analyze(String((record as { [key: string]: unknown })[name as string]))
+        );
+        const count = (phrase: string[]): number => fields.reduce(
+            (sum: number, words: string[]) => sum + this.countPhrase(words, phrase) / Math.max(words.length, 1),
+            0
+        );
+
+        if (query.terms.length === 0 && query.phrases.length === 0) {
+            return 0;
+        }
+
+        const negated: boolean = [ ...query.negatedTerms.map((term: string) => [ term ]), ...query.negatedPhrases ]
+            .some((phrase: string[]) => count(phrase) > 0);
+        const scores: number[] = [ ...query.terms.map((term: string) => [ term ]), ...query.phrases ]
+            .map((phrase: string[]) => count(phrase) * phrase.length);
+
+        return negated || scores.some((score: number) => score === 0)
+            ? 0
+            : scores.reduce((sum: number, score: number) => sum + score, 0);
+    }
+
+    // noinspection JSMethodCanBeStatic
+    protected countPhrase(words: string[], phrase: string[]): number {
+        return words.filter((word: string, i: number) =>
+            phrase.every((phraseWord: string, j: number) => words[i + j] === phraseWord)
+        ).length;
+    }
+}